@@ -1,7 +1,40 @@
+import fs from 'fs'
 import path from 'path'
-import { app, ipcMain, desktopCapturer } from 'electron'
+import { app, BrowserWindow, clipboard, dialog, ipcMain, nativeImage, screen, session, shell } from 'electron'
 import serve from 'electron-serve'
-import { createWindow } from './helpers'
+import {
+  AnnotationMessage,
+  AnnotationOverlays,
+  AppSettings,
+  ClipboardContent,
+  MAX_CLIPBOARD_BYTES,
+  TlsCredentials,
+  appendRecordingChunk,
+  cancelFileSave,
+  certificateFingerprint,
+  clipboardContentSize,
+  createWindow,
+  finishFileSave,
+  getSettings,
+  isAnnotationMessage,
+  isClipboardContent,
+  isSavedSnapshot,
+  listCaptureSources,
+  loadCertificate,
+  loadOrCreateCertificate,
+  saveSettings,
+  saveSnapshot,
+  startFileSave,
+  startRecording,
+  stopRecording,
+  verifySignalingCertificate,
+  writeFileChunk,
+  InputInjector,
+  RemoteInputEvent,
+  createNativeInputInjector,
+  isRemoteInputEvent,
+  toScreenPoint,
+} from './helpers'
 import SignalingServer from './websocket-server'
 
 const isProd = process.env.NODE_ENV === 'production'
@@ -12,12 +45,66 @@ if (isProd) {
   app.setPath('userData', `${app.getPath('userData')} (development)`)
 }
 
+// Pages are served by electron-serve in production and by the Next dev
+// server, on the port nextron passes in, during development
+const loadRoute = (window: BrowserWindow, route: string) =>
+  window.loadURL(isProd ? `app://./${route}` : `http://localhost:${process.argv[2]}/${route}`)
+
+const annotationOverlays = new AnnotationOverlays(path.join(__dirname, 'preload.js'), loadRoute)
+
+// The built-in server uses the configured certificate pair, or a
+// self-signed one kept in the user data directory
+const loadTlsCredentials = (settings: AppSettings): TlsCredentials | null => {
+  if (!settings.tlsEnabled) return null
+
+  if (settings.tlsCertPath && settings.tlsKeyPath) {
+    try {
+      return loadCertificate(settings.tlsCertPath, settings.tlsKeyPath)
+    } catch (error) {
+      console.error('Could not load the configured TLS certificate, using the self-signed one:', error)
+    }
+  }
+  return loadOrCreateCertificate(path.join(app.getPath('userData'), 'tls'))
+}
+
+const tlsCredentials = loadTlsCredentials(getSettings())
+
 // Start WebSocket signaling server
-const signalingServer = new SignalingServer(8080)
+const signalingServer = new SignalingServer(getSettings().listenPort, {
+  tls: tlsCredentials ? { cert: tlsCredentials.cert, key: tlsCredentials.key } : undefined,
+})
+
+// Remote input is dropped unless the host has allowed control. Control
+// cannot be turned on where the native injector is unavailable.
+const inputInjector: InputInjector | null = createNativeInputInjector()
+let remoteControlEnabled = false
 
 ;(async () => {
   await app.whenReady()
 
+  // Self-signed signaling servers are only trusted when their certificate
+  // matches our own or the fingerprint pinned in settings. A pin for the
+  // configured signaling host also overrides normal validation, so a
+  // certificate authority cannot vouch for an impostor.
+  session.defaultSession.setCertificateVerifyProc((request, callback) => {
+    const { pinnedFingerprint, signalingUrl } = getSettings()
+    let fingerprint = ''
+    try {
+      fingerprint = certificateFingerprint(request.certificate.data)
+    } catch {
+      callback(-2)
+      return
+    }
+
+    callback(verifySignalingCertificate({
+      hostname: request.hostname,
+      fingerprint,
+      signalingUrl,
+      ownFingerprint: tlsCredentials ? tlsCredentials.fingerprint : null,
+      pinnedFingerprint,
+    }))
+  })
+
   const mainWindow = createWindow('main', {
     width: 1200,
     height: 800,
@@ -30,21 +117,21 @@ const signalingServer = new SignalingServer(8080)
     },
   })
 
-  if (isProd) {
-    await mainWindow.loadURL('app://./')
-  } else {
-    const port = process.argv[2]
-    await mainWindow.loadURL(`http://localhost:${port}/`)
+  await loadRoute(mainWindow, '')
+  if (!isProd) {
     mainWindow.webContents.openDevTools()
   }
 
+  // Overlays would otherwise keep the app running
+  mainWindow.on('closed', () => annotationOverlays.closeAll())
+
   // Handle client-side routing
   mainWindow.webContents.on('will-navigate', (event, navigationUrl) => {
     const parsedUrl = new URL(navigationUrl)
     const pathname = parsedUrl.pathname
     
     // Allow navigation to our app routes
-    if (pathname === '/' || pathname === '/home' || pathname === '/host' || pathname === '/client') {
+    if (['/', '/home', '/host', '/client', '/settings'].includes(pathname)) {
       return
     }
     
@@ -62,11 +149,134 @@ ipcMain.on('message', async (event, arg) => {
   event.reply('message', `${arg} World!`)
 })
 
-// Handle screen capture permission
-ipcMain.handle('get-display-media', async () => {
-  const sources = await desktopCapturer.getSources({
-    types: ['screen'],
-    thumbnailSize: { width: 1920, height: 1080 }
-  })
-  return sources
+// Screens and windows the host can share, with thumbnails for the picker
+ipcMain.handle('get-display-media', async () => listCaptureSources())
+
+ipcMain.handle('get-settings', async () => getSettings())
+
+ipcMain.handle('save-settings', async (_event, settings: Partial<AppSettings>) => saveSettings(settings))
+
+// Shown in settings so viewers can pin this computer's certificate
+ipcMain.handle('get-certificate-fingerprint', async () => tlsCredentials ? tlsCredentials.fingerprint : null)
+
+// An image on the clipboard wins over its text, which is usually just a
+// description of it. null when the clipboard holds neither.
+ipcMain.handle('clipboard-read', async (): Promise<ClipboardContent | null> => {
+  const image = clipboard.readImage()
+  if (!image.isEmpty()) {
+    return { type: 'image', dataUrl: image.toDataURL() }
+  }
+  const text = clipboard.readText()
+  return text ? { type: 'text', text } : null
+})
+
+ipcMain.handle('clipboard-write', async (_event, content: ClipboardContent) => {
+  if (!isClipboardContent(content) || clipboardContentSize(content) > MAX_CLIPBOARD_BYTES) {
+    return false
+  }
+
+  if (content.type === 'text') {
+    clipboard.writeText(content.text)
+  } else {
+    const image = nativeImage.createFromDataURL(content.dataUrl)
+    if (image.isEmpty()) return false
+    clipboard.writeImage(image)
+  }
+  return true
+})
+
+// Incoming file transfers: the user picks where each file goes, then the
+// renderer streams verified chunks into it
+ipcMain.handle('file-save-start', async (event, name: string) =>
+  startFileSave(BrowserWindow.fromWebContents(event.sender), String(name)))
+
+ipcMain.handle('file-save-chunk', async (_event, arg: { saveId: string; offset: number; data: string }) =>
+  writeFileChunk(arg.saveId, arg.offset, Buffer.from(arg.data, 'base64')))
+
+ipcMain.handle('file-save-finish', async (_event, arg: { saveId: string; size: number }) =>
+  finishFileSave(arg.saveId, arg.size))
+
+ipcMain.handle('file-save-cancel', async (_event, saveId: string) => cancelFileSave(saveId))
+
+// Session recordings. The renderer's MediaRecorder streams WebM chunks into
+// a file in the configured folder.
+ipcMain.handle('recording-start', async (_event, name: string) =>
+  startRecording(getSettings().recordingFolder || app.getPath('videos'), String(name)))
+
+ipcMain.handle('recording-chunk', async (_event, arg: { recordingId: string; data: Uint8Array }) =>
+  appendRecordingChunk(arg.recordingId, Buffer.from(arg.data)))
+
+ipcMain.handle('recording-stop', async (_event, recordingId: string) => stopRecording(recordingId))
+
+// Viewers' snapshots of the remote screen, saved as PNG to the configured
+// folder and optionally copied to the clipboard
+ipcMain.handle('snapshot-save', async (_event, arg: { name: string; data: Uint8Array; copyToClipboard: boolean }) => {
+  const png = Buffer.from(arg.data)
+  const file = await saveSnapshot(getSettings().snapshotFolder || app.getPath('pictures'), String(arg.name), png)
+  if (arg.copyToClipboard) {
+    const image = nativeImage.createFromBuffer(png)
+    if (!image.isEmpty()) {
+      clipboard.writeImage(image)
+    }
+  }
+  return file
+})
+
+// Opens a snapshot in the system's image viewer. Other paths are refused.
+ipcMain.handle('snapshot-open', async (_event, file: string) => {
+  if (!isSavedSnapshot(String(file))) return false
+  return (await shell.openPath(file)) === ''
+})
+
+// Viewers' annotations, passed on to the overlay windows on the host's
+// screens
+ipcMain.handle('annotation-forward', async (_event, arg: { author: string; message: AnnotationMessage }) => {
+  if (!arg || !isAnnotationMessage(arg.message)) return false
+  annotationOverlays.forward(String(arg.author), arg.message)
+  return true
+})
+
+ipcMain.handle('annotation-overlays-close', async () => annotationOverlays.closeAll())
+
+// Resolves with the saved path, or null when the user cancels
+ipcMain.handle('save-text-file', async (event, arg: { defaultName: string; content: string }) => {
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const options = { defaultPath: path.basename(String(arg.defaultName)) }
+  const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options)
+  if (result.canceled || !result.filePath) return null
+
+  await fs.promises.writeFile(result.filePath, String(arg.content), 'utf8')
+  return result.filePath
+})
+
+ipcMain.handle('get-remote-control-supported', async () => inputInjector !== null)
+
+ipcMain.handle('set-remote-control', async (_event, enabled: boolean) => {
+  const wasEnabled = remoteControlEnabled
+  remoteControlEnabled = inputInjector !== null && !!enabled
+  if (wasEnabled && !remoteControlEnabled) {
+    await inputInjector.releaseAll()
+  }
+  return remoteControlEnabled
+})
+
+// Convert normalized pointer coordinates to absolute pixels on the display
+// being shared, then hand the event to the injector
+ipcMain.handle('inject-input', async (_event, arg: { displayId?: string; event: RemoteInputEvent }) => {
+  if (!inputInjector || !remoteControlEnabled || !arg || !isRemoteInputEvent(arg.event)) {
+    return false
+  }
+
+  const display = screen.getAllDisplays().find((d) => String(d.id) === arg.displayId)
+    || screen.getPrimaryDisplay()
+  const input = arg.event
+
+  if ('x' in input) {
+    // Display bounds are in DIPs; Windows places the cursor in physical pixels
+    const point = toScreenPoint(display.bounds, input.x, input.y)
+    await inputInjector.inject({ ...input, ...(process.platform === 'win32' ? screen.dipToScreenPoint(point) : point) })
+  } else {
+    await inputInjector.inject(input)
+  }
+  return true
 })
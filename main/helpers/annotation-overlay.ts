@@ -0,0 +1,89 @@
+import { BrowserWindow, screen } from 'electron'
+import { createWindow } from './create-window'
+import type { AnnotationMessage } from './annotation'
+
+interface Overlay {
+  window: BrowserWindow
+  // Messages wait for the page to load, then arrive in order
+  ready: Promise<void>
+}
+
+// Shows viewers' annotations on the host's own screens: one transparent,
+// click-through, always-on-top window per display drawn on, opened with its
+// first stroke
+export class AnnotationOverlays {
+  private overlays: Map<string, Overlay> = new Map()
+  private preload: string
+  private loadRoute: (window: BrowserWindow, route: string) => Promise<void>
+
+  constructor(preload: string, loadRoute: (window: BrowserWindow, route: string) => Promise<void>) {
+    this.preload = preload
+    this.loadRoute = loadRoute
+  }
+
+  // author names the viewer, so strokes from different viewers never clash
+  public forward(author: string, message: AnnotationMessage) {
+    if (message.type === 'begin' && message.stroke.displayId) {
+      this.open(message.stroke.displayId)
+    }
+
+    this.overlays.forEach(({ window, ready }) => {
+      ready.then(() => {
+        if (!window.isDestroyed()) {
+          window.webContents.send('annotation', author, message)
+        }
+      })
+    })
+  }
+
+  public closeAll() {
+    this.overlays.forEach(({ window }) => {
+      if (!window.isDestroyed()) {
+        window.close()
+      }
+    })
+    this.overlays.clear()
+  }
+
+  private open(displayId: string) {
+    if (this.overlays.has(displayId)) return
+
+    const display = screen.getAllDisplays().find((candidate) => String(candidate.id) === displayId)
+    if (!display) return
+
+    const window = createWindow(`annotation-${displayId}`, {
+      ...display.bounds,
+      show: false,
+      frame: false,
+      transparent: true,
+      backgroundColor: '#00000000',
+      hasShadow: false,
+      resizable: false,
+      movable: false,
+      focusable: false,
+      skipTaskbar: true,
+      webPreferences: {
+        preload: this.preload,
+      },
+    })
+    window.setIgnoreMouseEvents(true)
+    window.setAlwaysOnTop(true, 'screen-saver')
+    window.setVisibleOnAllWorkspaces(true)
+    // Keeps the overlay out of the screen capture, so viewers do not see
+    // their strokes twice
+    window.setContentProtection(true)
+    window.webContents.on('will-navigate', (event) => event.preventDefault())
+    window.on('closed', () => {
+      if (this.overlays.get(displayId)?.window === window) {
+        this.overlays.delete(displayId)
+      }
+    })
+
+    const ready = this.loadRoute(window, `annotation-overlay?display=${encodeURIComponent(displayId)}`)
+      .then(() => window.showInactive())
+      .catch((error) => {
+        console.error('Could not load the annotation overlay:', error)
+      })
+    this.overlays.set(displayId, { window, ready })
+  }
+}
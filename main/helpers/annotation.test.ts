@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_ANNOTATION_POINTS, isAnnotationMessage } from './annotation'
+
+const stroke = (points: unknown[], changes: Record<string, unknown> = {}) => ({
+  id: 's1',
+  tool: 'freehand',
+  color: '#EF4444',
+  displayId: 'screen:0',
+  points,
+  ...changes,
+})
+
+describe('isAnnotationMessage', () => {
+  it.each([
+    ['a stroke', { type: 'begin', stroke: stroke([{ x: 0.5, y: 0.5 }]) }],
+    ['a stroke on the edges', { type: 'begin', stroke: stroke([{ x: 0, y: 0 }, { x: 1, y: 1 }]) }],
+    ['a stroke on a shared window', { type: 'begin', stroke: stroke([{ x: 0.1, y: 0.2 }], { displayId: null }) }],
+    ['a laser', { type: 'begin', stroke: stroke([{ x: 0.1, y: 0.2 }], { tool: 'laser' }) }],
+    ['an extension', { type: 'extend', id: 's1', points: [{ x: 0.25, y: 0.75 }] }],
+    ['an empty extension', { type: 'extend', id: 's1', points: [] }],
+    ['a clear', { type: 'clear' }],
+  ])('accepts %s', (_label, message) => {
+    expect(isAnnotationMessage(message)).toBe(true)
+  })
+
+  it.each([
+    ['x below 0', { x: -0.01, y: 0.5 }],
+    ['x above 1', { x: 1.01, y: 0.5 }],
+    ['y below 0', { x: 0.5, y: -1 }],
+    ['y above 1', { x: 0.5, y: 2 }],
+    ['a NaN coordinate', { x: NaN, y: 0.5 }],
+    ['an infinite coordinate', { x: 0.5, y: Infinity }],
+    ['a coordinate given as text', { x: '0.5', y: 0.5 }],
+    ['a missing coordinate', { x: 0.5 }],
+    ['a point that is not an object', 0.5],
+  ])('rejects a point with %s', (_label, point) => {
+    const valid = { x: 0.5, y: 0.5 }
+    expect(isAnnotationMessage({ type: 'begin', stroke: stroke([valid, point]) })).toBe(false)
+    expect(isAnnotationMessage({ type: 'extend', id: 's1', points: [valid, point] })).toBe(false)
+  })
+
+  it('rejects more points than a stroke may hold', () => {
+    const points = Array.from({ length: MAX_ANNOTATION_POINTS + 1 }, () => ({ x: 0.5, y: 0.5 }))
+    expect(isAnnotationMessage({ type: 'begin', stroke: stroke(points) })).toBe(false)
+    expect(isAnnotationMessage({ type: 'extend', id: 's1', points })).toBe(false)
+    expect(isAnnotationMessage({ type: 'begin', stroke: stroke(points.slice(1)) })).toBe(true)
+  })
+
+  it.each([
+    ['no points', stroke([])],
+    ['an unknown tool', stroke([{ x: 0, y: 0 }], { tool: 'spray' })],
+    ['a named color', stroke([{ x: 0, y: 0 }], { color: 'red' })],
+    ['a short color', stroke([{ x: 0, y: 0 }], { color: '#f00' })],
+    ['a numeric id', stroke([{ x: 0, y: 0 }], { id: 1 })],
+    ['a missing display', stroke([{ x: 0, y: 0 }], { displayId: undefined })],
+  ])('rejects a stroke with %s', (_label, value) => {
+    expect(isAnnotationMessage({ type: 'begin', stroke: value })).toBe(false)
+  })
+
+  it.each([
+    ['null', null],
+    ['a string', 'clear'],
+    ['an unknown type', { type: 'erase' }],
+    ['a begin without a stroke', { type: 'begin' }],
+    ['an extension without an id', { type: 'extend', points: [] }],
+    ['an extension without points', { type: 'extend', id: 's1' }],
+  ])('rejects %s', (_label, value) => {
+    expect(isAnnotationMessage(value)).toBe(false)
+  })
+})
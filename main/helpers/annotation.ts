@@ -0,0 +1,75 @@
+// Annotations as they travel from a viewer to the host, and from the host's
+// renderer to its overlay windows. Kept free of Electron imports so the
+// renderer can share the checks.
+export type AnnotationTool = 'freehand' | 'arrow' | 'rectangle' | 'laser'
+
+export const ANNOTATION_TOOLS: AnnotationTool[] = ['freehand', 'arrow', 'rectangle', 'laser']
+
+// 0..1 across the shared display or window, from its top left corner
+export interface AnnotationPoint {
+  x: number
+  y: number
+}
+
+// Arrows and rectangles span their first and last points
+export interface AnnotationStroke {
+  // Only unique per author
+  id: string
+  tool: AnnotationTool
+  // #rrggbb
+  color: string
+  // The shared display drawn on; null for a shared window
+  displayId: string | null
+  points: AnnotationPoint[]
+}
+
+// 'clear' removes every annotation on the receiving side
+export type AnnotationMessage =
+  | { type: 'begin'; stroke: AnnotationStroke }
+  | { type: 'extend'; id: string; points: AnnotationPoint[] }
+  | { type: 'clear' }
+
+// Longest stroke kept; points past it are dropped
+export const MAX_ANNOTATION_POINTS = 5000
+
+// Strokes kept from each author; starting another drops their oldest
+export const MAX_ANNOTATION_STROKES = 200
+
+// How long a laser pointer stays visible after it last moved
+export const LASER_FADE_MS = 1500
+
+const isPoint = (value: unknown): value is AnnotationPoint => {
+  if (!value || typeof value !== 'object') return false
+  const point = value as Record<string, unknown>
+  return typeof point.x === 'number' && point.x >= 0 && point.x <= 1 &&
+    typeof point.y === 'number' && point.y >= 0 && point.y <= 1
+}
+
+const isPointList = (value: unknown): value is AnnotationPoint[] =>
+  Array.isArray(value) && value.length <= MAX_ANNOTATION_POINTS && value.every(isPoint)
+
+const isStroke = (value: unknown): value is AnnotationStroke => {
+  if (!value || typeof value !== 'object') return false
+  const stroke = value as Record<string, unknown>
+  return typeof stroke.id === 'string' &&
+    ANNOTATION_TOOLS.indexOf(stroke.tool as AnnotationTool) !== -1 &&
+    typeof stroke.color === 'string' && /^#[0-9a-f]{6}$/i.test(stroke.color) &&
+    (stroke.displayId === null || typeof stroke.displayId === 'string') &&
+    isPointList(stroke.points) && stroke.points.length > 0
+}
+
+export const isAnnotationMessage = (value: unknown): value is AnnotationMessage => {
+  if (!value || typeof value !== 'object') return false
+  const message = value as Record<string, unknown>
+
+  switch (message.type) {
+    case 'begin':
+      return isStroke(message.stroke)
+    case 'extend':
+      return typeof message.id === 'string' && isPointList(message.points)
+    case 'clear':
+      return true
+    default:
+      return false
+  }
+}
@@ -0,0 +1,53 @@
+import { desktopCapturer, screen } from 'electron'
+
+// A monitor as reported by Electron's screen module
+export interface DisplayInfo {
+  id: string
+  label: string
+  // Device-independent pixels in the virtual desktop
+  bounds: { x: number; y: number; width: number; height: number }
+  scaleFactor: number
+  primary: boolean
+}
+
+export interface CaptureSource {
+  // desktopCapturer media source id, passed to getUserMedia
+  id: string
+  name: string
+  type: 'screen' | 'window'
+  // Display the source is on; empty for windows
+  displayId: string
+  display: DisplayInfo | null
+  // PNG data URL, since NativeImage cannot cross the context bridge
+  thumbnail: string
+}
+
+const THUMBNAIL_SIZE = { width: 320, height: 180 }
+
+export const listDisplays = (): DisplayInfo[] => {
+  const primaryId = screen.getPrimaryDisplay().id
+  return screen.getAllDisplays().map((display, index) => ({
+    id: String(display.id),
+    label: display.label || `Display ${index + 1}`,
+    bounds: { ...display.bounds },
+    scaleFactor: display.scaleFactor,
+    primary: display.id === primaryId,
+  }))
+}
+
+export const listCaptureSources = async (): Promise<CaptureSource[]> => {
+  const sources = await desktopCapturer.getSources({
+    types: ['screen', 'window'],
+    thumbnailSize: THUMBNAIL_SIZE,
+  })
+  const displays = listDisplays()
+
+  return sources.map((source) => ({
+    id: source.id,
+    name: source.name,
+    type: source.id.startsWith('screen:') ? 'screen' : 'window',
+    displayId: source.display_id,
+    display: displays.find((display) => display.id === source.display_id) || null,
+    thumbnail: source.thumbnail.toDataURL(),
+  }))
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { CertificateCheck, normalizeFingerprint, verifySignalingCertificate } from './certificate'
+
+const OWN = Array.from({ length: 32 }, () => 'AA').join(':')
+const PINNED = Array.from({ length: 32 }, () => 'BB').join(':')
+const OTHER = Array.from({ length: 32 }, () => 'CC').join(':')
+
+describe('normalizeFingerprint', () => {
+  const hex = 'ab'.repeat(32)
+  const expected = 'AB:'.repeat(31) + 'AB'
+
+  it.each([
+    ['colon-separated upper case', expected],
+    ['colon-separated lower case', expected.toLowerCase()],
+    ['bare hex', hex],
+    ['spaced pairs', hex.match(/.{2}/g).join(' ')],
+    ['surrounding whitespace and line breaks', `  ${expected.slice(0, 48)}\n${expected.slice(48)}  `],
+  ])('accepts %s', (_label, value) => {
+    expect(normalizeFingerprint(value)).toBe(expected)
+  })
+
+  it.each([
+    ['an empty string', ''],
+    ['a SHA-1 digest', 'ab'.repeat(20)],
+    ['a digest one digit short', hex.slice(1)],
+    ['a digest one digit long', `${hex}a`],
+    ['non-hex digits', `${'ab'.repeat(31)}zz`],
+    ['other separators', hex.match(/.{2}/g).join('-')],
+  ])('rejects %s', (_label, value) => {
+    expect(normalizeFingerprint(value)).toBeNull()
+  })
+})
+
+describe('verifySignalingCertificate', () => {
+  const check = (changes: Partial<CertificateCheck>): CertificateCheck => ({
+    hostname: '192.168.1.20',
+    fingerprint: PINNED,
+    signalingUrl: 'wss://192.168.1.20:8080',
+    ownFingerprint: OWN,
+    pinnedFingerprint: PINNED,
+    ...changes,
+  })
+
+  it('trusts the signaling host when it presents the pinned certificate', () => {
+    expect(verifySignalingCertificate(check({}))).toBe(0)
+  })
+
+  it('rejects the signaling host when it presents any other certificate', () => {
+    expect(verifySignalingCertificate(check({ fingerprint: OTHER }))).toBe(-2)
+  })
+
+  it('trusts its own certificate from the signaling host', () => {
+    const ownServer = check({ hostname: 'localhost', signalingUrl: 'wss://localhost:8080', fingerprint: OWN })
+    expect(verifySignalingCertificate(ownServer)).toBe(0)
+    expect(verifySignalingCertificate({ ...ownServer, pinnedFingerprint: '' })).toBe(0)
+  })
+
+  it('does not trust its own certificate from any other host', () => {
+    expect(verifySignalingCertificate(check({ hostname: 'evil.example.com', fingerprint: OWN }))).toBe(-3)
+    expect(verifySignalingCertificate(check({ hostname: 'evil.example.com', fingerprint: OWN, pinnedFingerprint: '' })))
+      .toBe(-3)
+  })
+
+  it('leaves other hosts to normal validation, even with the pinned certificate', () => {
+    expect(verifySignalingCertificate(check({ hostname: 'example.com' }))).toBe(-3)
+  })
+
+  it('leaves the signaling host to normal validation when nothing is pinned', () => {
+    expect(verifySignalingCertificate(check({ fingerprint: OTHER, pinnedFingerprint: '' }))).toBe(-3)
+  })
+
+  it('leaves every host to normal validation when the signaling URL does not parse', () => {
+    expect(verifySignalingCertificate(check({ signalingUrl: 'not a url', fingerprint: OWN }))).toBe(-3)
+  })
+})
@@ -0,0 +1,102 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { X509Certificate } from 'crypto'
+import selfsigned from 'selfsigned'
+
+export interface TlsCredentials {
+  cert: string
+  key: string
+  // SHA-256 of the certificate, as colon-separated upper-case hex
+  fingerprint: string
+}
+
+const CERT_FILE = 'signaling-cert.pem'
+const KEY_FILE = 'signaling-key.pem'
+const CERT_VALIDITY_DAYS = 10 * 365
+
+export const certificateFingerprint = (pem: string): string =>
+  new X509Certificate(pem).fingerprint256
+
+// Accepts fingerprints with or without separators, in either case. Returns
+// null unless the input is exactly one SHA-256 digest.
+export const normalizeFingerprint = (value: string): string | null => {
+  const hex = value.replace(/[\s:]/g, '').toUpperCase()
+  if (!/^[0-9A-F]{64}$/.test(hex)) return null
+  return hex.match(/.{2}/g)!.join(':')
+}
+
+// Results for Electron's certificate verify proc: trust, reject, or defer to
+// Chromium's own verification
+export type CertificateVerdict = 0 | -2 | -3
+
+export interface CertificateCheck {
+  // Host the certificate was presented by
+  hostname: string
+  fingerprint: string
+  signalingUrl: string
+  // This app's own server certificate, when it serves TLS
+  ownFingerprint: string | null
+  pinnedFingerprint: string
+}
+
+// Self-signed certificates are only accepted from the configured signaling
+// host, where they either are this app's own or match the pinned one. Every
+// other host goes through normal validation.
+export const verifySignalingCertificate = (check: CertificateCheck): CertificateVerdict => {
+  let signalingHost = ''
+  try {
+    signalingHost = new URL(check.signalingUrl).hostname
+  } catch {
+    // An invalid URL cannot be saved; fall through to normal validation
+  }
+  if (!signalingHost || check.hostname !== signalingHost) return -3
+
+  if (check.ownFingerprint && check.fingerprint === check.ownFingerprint) return 0
+  if (check.pinnedFingerprint) return check.fingerprint === check.pinnedFingerprint ? 0 : -2
+  return -3
+}
+
+const generateCertificate = () => {
+  const hostname = os.hostname()
+  const altNames = [
+    { type: 2, value: 'localhost' },
+    { type: 7, ip: '127.0.0.1' },
+    { type: 2, value: hostname },
+  ]
+
+  return selfsigned.generate([{ name: 'commonName', value: hostname }], {
+    days: CERT_VALIDITY_DAYS,
+    keySize: 2048,
+    algorithm: 'sha256',
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      { name: 'subjectAltName', altNames },
+    ],
+  })
+}
+
+// Reads the signaling server's certificate pair from `directory`, creating
+// a self-signed one there on first run. Viewers on other machines pin its
+// fingerprint instead of trusting a certificate authority.
+export const loadOrCreateCertificate = (directory: string): TlsCredentials => {
+  const certPath = path.join(directory, CERT_FILE)
+  const keyPath = path.join(directory, KEY_FILE)
+
+  if (!fs.existsSync(certPath) || !fs.existsSync(keyPath)) {
+    const generated = generateCertificate()
+    fs.mkdirSync(directory, { recursive: true })
+    fs.writeFileSync(keyPath, generated.private, { mode: 0o600 })
+    fs.writeFileSync(certPath, generated.cert)
+  }
+
+  return loadCertificate(certPath, keyPath)
+}
+
+export const loadCertificate = (certPath: string, keyPath: string): TlsCredentials => {
+  const cert = fs.readFileSync(certPath, 'utf8')
+  const key = fs.readFileSync(keyPath, 'utf8')
+  return { cert, key, fingerprint: certificateFingerprint(cert) }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { clipboardContentSize, isClipboardContent, sameClipboardContent } from './clipboard'
+
+describe('clipboardContentSize', () => {
+  it('counts the bytes of the encoded message', () => {
+    expect(clipboardContentSize({ type: 'text', text: 'abc' })).toBe(JSON.stringify({ type: 'text', text: 'abc' }).length)
+  })
+
+  it('counts non-ASCII text in UTF-8 bytes', () => {
+    const ascii = clipboardContentSize({ type: 'text', text: 'aa' })
+    expect(clipboardContentSize({ type: 'text', text: '漢字' })).toBe(ascii + 4)
+    expect(clipboardContentSize({ type: 'text', text: '😀' })).toBe(ascii + 2)
+  })
+
+  it('counts characters JSON escapes', () => {
+    const ascii = clipboardContentSize({ type: 'text', text: 'a' })
+    expect(clipboardContentSize({ type: 'text', text: '\n' })).toBe(ascii + 1)
+  })
+})
+
+describe('isClipboardContent', () => {
+  it('accepts text and PNG images', () => {
+    expect(isClipboardContent({ type: 'text', text: '' })).toBe(true)
+    expect(isClipboardContent({ type: 'image', dataUrl: 'data:image/png;base64,AAAA' })).toBe(true)
+  })
+
+  it('rejects other content', () => {
+    expect(isClipboardContent(null)).toBe(false)
+    expect(isClipboardContent({ type: 'text', text: 1 })).toBe(false)
+    expect(isClipboardContent({ type: 'image', dataUrl: 'data:image/jpeg;base64,AAAA' })).toBe(false)
+    expect(isClipboardContent({ type: 'html', html: '<b>' })).toBe(false)
+  })
+})
+
+describe('sameClipboardContent', () => {
+  it('compares content of the same type', () => {
+    expect(sameClipboardContent({ type: 'text', text: 'a' }, { type: 'text', text: 'a' })).toBe(true)
+    expect(sameClipboardContent({ type: 'text', text: 'a' }, { type: 'text', text: 'b' })).toBe(false)
+    expect(sameClipboardContent({ type: 'text', text: 'a' }, { type: 'image', dataUrl: 'a' })).toBe(false)
+  })
+
+  it('treats an empty clipboard as equal only to another', () => {
+    expect(sameClipboardContent(null, null)).toBe(true)
+    expect(sameClipboardContent(null, { type: 'text', text: '' })).toBe(false)
+  })
+})
@@ -0,0 +1,39 @@
+// Clipboard contents as they travel between the main process, the renderer
+// and the other side of the connection. Kept free of Electron imports so the
+// renderer can share the checks.
+export type ClipboardContent =
+  | { type: 'text'; text: string }
+  // PNG data URL, since NativeImage cannot cross the context bridge
+  | { type: 'image'; dataUrl: string }
+
+// Each clipboard change is sent as a single data channel message, which
+// Chromium caps at 256 KiB
+export const MAX_CLIPBOARD_BYTES = 240 * 1024
+
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,'
+
+// Bytes of the data channel message carrying the content: UTF-8 encoded
+// JSON, where non-ASCII text takes up to three bytes a character
+export const clipboardContentSize = (content: ClipboardContent): number =>
+  new TextEncoder().encode(JSON.stringify(content)).length
+
+export const isClipboardContent = (value: unknown): value is ClipboardContent => {
+  if (!value || typeof value !== 'object') return false
+  const content = value as Record<string, unknown>
+
+  if (content.type === 'text') {
+    return typeof content.text === 'string'
+  }
+  if (content.type === 'image') {
+    return typeof content.dataUrl === 'string' && content.dataUrl.startsWith(PNG_DATA_URL_PREFIX)
+  }
+  return false
+}
+
+// Two reads of the same clipboard compare equal
+export const sameClipboardContent = (a: ClipboardContent | null, b: ClipboardContent | null): boolean => {
+  if (!a || !b) return a === b
+  if (a.type === 'text' && b.type === 'text') return a.text === b.text
+  if (a.type === 'image' && b.type === 'image') return a.dataUrl === b.dataUrl
+  return false
+}
@@ -0,0 +1,70 @@
+import fs from 'fs'
+import path from 'path'
+import { randomBytes } from 'crypto'
+import { BrowserWindow, dialog } from 'electron'
+
+export interface FileSave {
+  // Names the save in later calls, so the renderer never picks a path itself
+  saveId: string
+  path: string
+}
+
+// Files being received, by saveId. Data goes to a .part file next to the
+// destination until the transfer completes.
+const saves: Map<string, string> = new Map()
+
+const partialPath = (destination: string) => `${destination}.part`
+
+// Ask where to save an incoming file. null when the user cancels.
+export const startFileSave = async (window: BrowserWindow | null, name: string): Promise<FileSave | null> => {
+  const options = { defaultPath: path.basename(name) || 'download' }
+  const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options)
+  if (result.canceled || !result.filePath) return null
+
+  const saveId = randomBytes(16).toString('hex')
+  saves.set(saveId, result.filePath)
+  await fs.promises.writeFile(partialPath(result.filePath), Buffer.alloc(0))
+  return { saveId, path: result.filePath }
+}
+
+// Chunks may be written again from an earlier offset when a transfer
+// resumes or a chunk fails its checksum
+export const writeFileChunk = async (saveId: string, offset: number, data: Buffer): Promise<void> => {
+  const destination = saves.get(saveId)
+  if (!destination) {
+    throw new Error('Unknown file save')
+  }
+
+  const handle = await fs.promises.open(partialPath(destination), 'r+')
+  try {
+    await handle.write(data, 0, data.length, offset)
+  } finally {
+    await handle.close()
+  }
+}
+
+// Trims anything past the expected size and moves the file into place
+export const finishFileSave = async (saveId: string, size: number): Promise<string> => {
+  const destination = saves.get(saveId)
+  if (!destination) {
+    throw new Error('Unknown file save')
+  }
+
+  const partial = partialPath(destination)
+  const stats = await fs.promises.stat(partial)
+  if (stats.size < size) {
+    throw new Error(`Received ${stats.size} of ${size} bytes`)
+  }
+  await fs.promises.truncate(partial, size)
+  await fs.promises.rename(partial, destination)
+  saves.delete(saveId)
+  return destination
+}
+
+export const cancelFileSave = async (saveId: string): Promise<void> => {
+  const destination = saves.get(saveId)
+  if (!destination) return
+
+  saves.delete(saveId)
+  await fs.promises.rm(partialPath(destination), { force: true })
+}
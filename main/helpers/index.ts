@@ -1 +1,12 @@
+export * from './capture-sources'
 export * from './create-window'
+export * from './input-injector'
+export * from './native-input-injector'
+export * from './settings'
+export * from './certificate'
+export * from './clipboard'
+export * from './file-receiver'
+export * from './recorder'
+export * from './snapshot'
+export * from './annotation'
+export * from './annotation-overlay'
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { RecordingInputInjector, isRemoteInputEvent, toScreenPoint } from './input-injector'
+
+const modifiers = { alt: false, ctrl: false, meta: false, shift: false }
+
+describe('isRemoteInputEvent', () => {
+  it('accepts each kind of event', () => {
+    expect(isRemoteInputEvent({ type: 'mouse_move', x: 0.5, y: 0.5 })).toBe(true)
+    expect(isRemoteInputEvent({ type: 'mouse_down', x: 0, y: 1, displayId: '2', button: 'left' })).toBe(true)
+    expect(isRemoteInputEvent({ type: 'mouse_up', x: 0, y: 1, button: 'right' })).toBe(true)
+    expect(isRemoteInputEvent({ type: 'wheel', x: 0.1, y: 0.2, deltaX: 0, deltaY: -120 })).toBe(true)
+    expect(isRemoteInputEvent({ type: 'key_down', key: 'a', code: 'KeyA', modifiers })).toBe(true)
+    expect(isRemoteInputEvent({ type: 'key_up', key: 'Enter', code: 'Enter', modifiers })).toBe(true)
+  })
+
+  it('rejects unknown types and non-objects', () => {
+    expect(isRemoteInputEvent(null)).toBe(false)
+    expect(isRemoteInputEvent('mouse_move')).toBe(false)
+    expect(isRemoteInputEvent({ type: 'touch', x: 0, y: 0 })).toBe(false)
+  })
+
+  it('rejects events with missing or mistyped fields', () => {
+    expect(isRemoteInputEvent({ type: 'mouse_move', x: '1', y: 0 })).toBe(false)
+    expect(isRemoteInputEvent({ type: 'mouse_move', x: 0, y: 0, displayId: 2 })).toBe(false)
+    expect(isRemoteInputEvent({ type: 'mouse_down', x: 0, y: 0, button: 'back' })).toBe(false)
+    expect(isRemoteInputEvent({ type: 'wheel', x: 0, y: 0, deltaX: 0 })).toBe(false)
+    expect(isRemoteInputEvent({ type: 'key_down', key: 'a', code: 'KeyA' })).toBe(false)
+  })
+})
+
+describe('toScreenPoint', () => {
+  const bounds = { x: 1920, y: -200, width: 1280, height: 1024 }
+
+  it('maps normalized coordinates onto the display', () => {
+    expect(toScreenPoint(bounds, 0, 0)).toEqual({ x: 1920, y: -200 })
+    expect(toScreenPoint(bounds, 0.5, 0.5)).toEqual({ x: 2560, y: 312 })
+    expect(toScreenPoint(bounds, 1, 1)).toEqual({ x: 3200, y: 824 })
+  })
+
+  it('clamps positions outside the display to its edges', () => {
+    expect(toScreenPoint(bounds, -0.5, 2)).toEqual({ x: 1920, y: 824 })
+  })
+
+  it('rounds to whole pixels', () => {
+    expect(toScreenPoint({ x: 0, y: 0, width: 3, height: 3 }, 0.5, 0.1)).toEqual({ x: 2, y: 0 })
+  })
+})
+
+describe('RecordingInputInjector', () => {
+  it('keeps the events it is given until cleared', async () => {
+    const injector = new RecordingInputInjector()
+    await injector.inject({ type: 'mouse_move', x: 10, y: 20 })
+    expect(injector.events).toEqual([{ type: 'mouse_move', x: 10, y: 20 }])
+    injector.clear()
+    expect(injector.events).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+export type MouseButton = 'left' | 'middle' | 'right'
+
+export interface KeyModifiers {
+  alt: boolean
+  ctrl: boolean
+  meta: boolean
+  shift: boolean
+}
+
+// Pointer coordinates are normalized to 0..1 across the shared display when
+// they travel from the client, and converted to absolute screen pixels by the
+// main process before they reach an InputInjector. displayId names the
+// display the pointer is on when the host shares more than one.
+export type RemoteInputEvent =
+  | { type: 'mouse_move'; x: number; y: number; displayId?: string }
+  | { type: 'mouse_down' | 'mouse_up'; x: number; y: number; displayId?: string; button: MouseButton }
+  | { type: 'wheel'; x: number; y: number; displayId?: string; deltaX: number; deltaY: number }
+  | { type: 'key_down' | 'key_up'; key: string; code: string; modifiers: KeyModifiers }
+
+export interface InputInjector {
+  inject(event: RemoteInputEvent): Promise<void>
+  // Lets go of every key and button still held, for when control is
+  // turned off mid-press
+  releaseAll(): Promise<void>
+}
+
+// Stands in for the native injector in tests: keeps every event it is given
+// so they can inspect what would have been sent to the OS.
+export class RecordingInputInjector implements InputInjector {
+  public readonly events: RemoteInputEvent[] = []
+
+  public async inject(event: RemoteInputEvent): Promise<void> {
+    this.events.push(event)
+  }
+
+  public async releaseAll(): Promise<void> {
+    // Nothing is really held down
+  }
+
+  public clear() {
+    this.events.length = 0
+  }
+}
+
+// A display's bounds in screen pixels
+export interface ScreenRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Maps a normalized pointer position onto a display, clamped to its edges
+export const toScreenPoint = (bounds: ScreenRect, x: number, y: number): { x: number; y: number } => ({
+  x: Math.round(bounds.x + Math.min(Math.max(x, 0), 1) * bounds.width),
+  y: Math.round(bounds.y + Math.min(Math.max(y, 0), 1) * bounds.height),
+})
+
+const isPointer = (event: Record<string, unknown>) =>
+  typeof event.x === 'number' && typeof event.y === 'number' &&
+  (event.displayId === undefined || typeof event.displayId === 'string')
+
+export const isRemoteInputEvent = (value: unknown): value is RemoteInputEvent => {
+  if (!value || typeof value !== 'object') return false
+  const event = value as Record<string, unknown>
+
+  switch (event.type) {
+    case 'mouse_move':
+      return isPointer(event)
+    case 'mouse_down':
+    case 'mouse_up':
+      return isPointer(event) &&
+        (event.button === 'left' || event.button === 'middle' || event.button === 'right')
+    case 'wheel':
+      return isPointer(event) &&
+        typeof event.deltaX === 'number' && typeof event.deltaY === 'number'
+    case 'key_down':
+    case 'key_up':
+      return typeof event.key === 'string' && typeof event.code === 'string' &&
+        !!event.modifiers && typeof event.modifiers === 'object'
+    default:
+      return false
+  }
+}
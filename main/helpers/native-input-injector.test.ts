@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { Libnut, NativeInputInjector, toNativeKey, toScrollSteps } from './native-input-injector'
+
+const modifiers = { alt: false, ctrl: false, meta: false, shift: false }
+
+// Records the calls the injector makes instead of touching the real desktop
+const fakeLibnut = () => {
+  const calls: unknown[][] = []
+  const libnut: Libnut = {
+    moveMouse: (x, y) => { calls.push(['moveMouse', x, y]) },
+    mouseToggle: (down, button) => { calls.push(['mouseToggle', down, button]) },
+    scrollMouse: (x, y) => { calls.push(['scrollMouse', x, y]) },
+    keyToggle: (key, down) => { calls.push(['keyToggle', key, down]) },
+  }
+  return { libnut, calls }
+}
+
+describe('toNativeKey', () => {
+  it.each([
+    ['KeyA', 'a'],
+    ['KeyZ', 'z'],
+    ['Digit7', '7'],
+    ['Numpad3', 'numpad_3'],
+    ['F1', 'f1'],
+    ['F24', 'f24'],
+    ['ShiftRight', 'right_shift'],
+    ['MetaLeft', 'meta'],
+    ['Enter', 'enter'],
+    ['ArrowUp', 'up'],
+    ['Backslash', '\\'],
+  ])('maps %s to %s', (code, key) => {
+    expect(toNativeKey(code)).toBe(key)
+  })
+
+  it('returns null for keys it cannot press', () => {
+    expect(toNativeKey('F25')).toBeNull()
+    expect(toNativeKey('IntlBackslash')).toBeNull()
+    expect(toNativeKey('toString')).toBeNull()
+    expect(toNativeKey('')).toBeNull()
+  })
+})
+
+describe('toScrollSteps', () => {
+  it.each([
+    [0, 0],
+    [100, 1],
+    [-300, -3],
+    [4, 1],
+    [-4, -1],
+    [260, 3],
+  ])('turns a delta of %d into %d steps', (delta, steps) => {
+    expect(toScrollSteps(delta)).toBe(steps)
+  })
+})
+
+describe('NativeInputInjector', () => {
+  it('moves the pointer before pressing a button', async () => {
+    const { libnut, calls } = fakeLibnut()
+    const injector = new NativeInputInjector(libnut)
+
+    await injector.inject({ type: 'mouse_down', x: 10, y: 20, button: 'right' })
+    await injector.inject({ type: 'mouse_up', x: 12, y: 22, button: 'right' })
+
+    expect(calls).toEqual([
+      ['moveMouse', 10, 20],
+      ['mouseToggle', 'down', 'right'],
+      ['moveMouse', 12, 22],
+      ['mouseToggle', 'up', 'right'],
+    ])
+  })
+
+  it('scrolls the opposite way to a wheel delta on the vertical axis', async () => {
+    const { libnut, calls } = fakeLibnut()
+    await new NativeInputInjector(libnut).inject({ type: 'wheel', x: 0, y: 0, deltaX: 100, deltaY: 200 })
+    expect(calls).toContainEqual(['scrollMouse', 1, -2])
+  })
+
+  it('presses keys by code and ignores unknown ones', async () => {
+    const { libnut, calls } = fakeLibnut()
+    const injector = new NativeInputInjector(libnut)
+
+    await injector.inject({ type: 'key_down', key: 'Q', code: 'KeyQ', modifiers })
+    await injector.inject({ type: 'key_down', key: 'x', code: 'Lang1', modifiers })
+
+    expect(calls).toEqual([['keyToggle', 'q', 'down']])
+  })
+
+  it('releases only what is still held', async () => {
+    const { libnut, calls } = fakeLibnut()
+    const injector = new NativeInputInjector(libnut)
+
+    await injector.inject({ type: 'key_down', key: 'Shift', code: 'ShiftLeft', modifiers })
+    await injector.inject({ type: 'key_down', key: 'a', code: 'KeyA', modifiers })
+    await injector.inject({ type: 'key_up', key: 'a', code: 'KeyA', modifiers })
+    await injector.inject({ type: 'mouse_down', x: 0, y: 0, button: 'left' })
+    calls.length = 0
+
+    await injector.releaseAll()
+    expect(calls).toEqual([
+      ['keyToggle', 'shift', 'up'],
+      ['mouseToggle', 'up', 'left'],
+    ])
+
+    calls.length = 0
+    await injector.releaseAll()
+    expect(calls).toEqual([])
+  })
+})
@@ -0,0 +1,159 @@
+import type { InputInjector, MouseButton, RemoteInputEvent } from './input-injector'
+
+// The libnut addon; each platform's package ships a prebuilt binary with
+// the same API
+export type Libnut = Pick<
+  typeof import('@nut-tree-fork/libnut-linux'),
+  'moveMouse' | 'mouseToggle' | 'scrollMouse' | 'keyToggle'
+>
+
+// Browsers report wheel movement in pixels, about this many per notch
+const PIXELS_PER_SCROLL_STEP = 100
+
+// KeyboardEvent.code values that are not a letter, digit or function key,
+// by libnut key name. Codes name physical keys, so the host's own layout
+// decides what gets typed.
+const KEY_NAMES: Record<string, string> = {
+  Space: 'space',
+  Escape: 'escape',
+  Tab: 'tab',
+  Enter: 'enter',
+  Backspace: 'backspace',
+  AltLeft: 'alt',
+  AltRight: 'right_alt',
+  ControlLeft: 'control',
+  ControlRight: 'right_control',
+  ShiftLeft: 'shift',
+  ShiftRight: 'right_shift',
+  MetaLeft: 'meta',
+  MetaRight: 'right_meta',
+  ContextMenu: 'menu',
+  CapsLock: 'caps_lock',
+  NumLock: 'num_lock',
+  ScrollLock: 'scroll_lock',
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  ArrowLeft: 'left',
+  ArrowUp: 'up',
+  ArrowRight: 'right',
+  ArrowDown: 'down',
+  PrintScreen: 'printscreen',
+  Insert: 'insert',
+  Delete: 'delete',
+  Home: 'home',
+  End: 'end',
+  PageUp: 'pageup',
+  PageDown: 'pagedown',
+  NumpadDecimal: 'numpad_decimal',
+  NumpadEqual: 'numpad_equal',
+  NumpadAdd: 'add',
+  NumpadSubtract: 'subtract',
+  NumpadMultiply: 'multiply',
+  NumpadDivide: 'divide',
+  NumpadEnter: 'enter',
+  AudioVolumeMute: 'audio_mute',
+  AudioVolumeDown: 'audio_vol_down',
+  AudioVolumeUp: 'audio_vol_up',
+  MediaPlayPause: 'audio_play',
+  MediaStop: 'audio_stop',
+  MediaTrackPrevious: 'audio_prev',
+  MediaTrackNext: 'audio_next',
+}
+
+// The libnut name for a KeyboardEvent.code, or null for keys it cannot press
+export const toNativeKey = (code: string): string | null => {
+  let match = /^Key([A-Z])$/.exec(code)
+  if (match) return match[1].toLowerCase()
+  match = /^Digit([0-9])$/.exec(code)
+  if (match) return match[1]
+  match = /^Numpad([0-9])$/.exec(code)
+  if (match) return `numpad_${match[1]}`
+  match = /^F([1-9]|1[0-9]|2[0-4])$/.exec(code)
+  if (match) return `f${match[1]}`
+  return Object.prototype.hasOwnProperty.call(KEY_NAMES, code) ? KEY_NAMES[code] : null
+}
+
+// Whole scroll steps for a wheel delta, at least one for any movement
+export const toScrollSteps = (delta: number): number =>
+  delta === 0 ? 0 : Math.sign(delta) * Math.max(1, Math.round(Math.abs(delta) / PIXELS_PER_SCROLL_STEP))
+
+// Drives the real mouse and keyboard through libnut. Modifier keys arrive as
+// key events of their own, so their state follows the viewer's keyboard.
+export class NativeInputInjector implements InputInjector {
+  private heldKeys: Set<string> = new Set()
+  private heldButtons: Set<MouseButton> = new Set()
+
+  constructor(private readonly libnut: Libnut) {}
+
+  public async inject(event: RemoteInputEvent): Promise<void> {
+    switch (event.type) {
+      case 'mouse_move':
+        this.libnut.moveMouse(event.x, event.y)
+        break
+      case 'mouse_down':
+      case 'mouse_up':
+        this.libnut.moveMouse(event.x, event.y)
+        this.libnut.mouseToggle(event.type === 'mouse_down' ? 'down' : 'up', event.button)
+        if (event.type === 'mouse_down') {
+          this.heldButtons.add(event.button)
+        } else {
+          this.heldButtons.delete(event.button)
+        }
+        break
+      case 'wheel':
+        this.libnut.moveMouse(event.x, event.y)
+        // libnut scrolls up for positive y, the opposite of a wheel delta
+        this.libnut.scrollMouse(toScrollSteps(event.deltaX), -toScrollSteps(event.deltaY))
+        break
+      case 'key_down':
+      case 'key_up': {
+        const key = toNativeKey(event.code)
+        if (!key) return
+        this.libnut.keyToggle(key, event.type === 'key_down' ? 'down' : 'up')
+        if (event.type === 'key_down') {
+          this.heldKeys.add(key)
+        } else {
+          this.heldKeys.delete(key)
+        }
+        break
+      }
+    }
+  }
+
+  public async releaseAll(): Promise<void> {
+    this.heldKeys.forEach((key) => this.libnut.keyToggle(key, 'up'))
+    this.heldButtons.forEach((button) => this.libnut.mouseToggle('up', button))
+    this.heldKeys.clear()
+    this.heldButtons.clear()
+  }
+}
+
+const loadLibnut = (): Libnut => {
+  switch (process.platform) {
+    case 'win32':
+      return require('@nut-tree-fork/libnut-win32')
+    case 'darwin':
+      return require('@nut-tree-fork/libnut-darwin')
+    default:
+      return require('@nut-tree-fork/libnut-linux')
+  }
+}
+
+// null where the addon cannot load, such as a Linux session without X11
+export const createNativeInputInjector = (): InputInjector | null => {
+  try {
+    return new NativeInputInjector(loadLibnut())
+  } catch (error) {
+    console.error('Remote control is unavailable, the input addon did not load:', error)
+    return null
+  }
+}
@@ -0,0 +1,44 @@
+import fs from 'fs'
+import path from 'path'
+import { randomBytes } from 'crypto'
+
+export interface Recording {
+  // Names the recording in later calls, so the renderer never picks a path itself
+  recordingId: string
+  path: string
+}
+
+// Recordings being written, by recordingId
+const recordings: Map<string, string> = new Map()
+
+// Creates the folder if needed. Fails rather than overwrite an existing file.
+export const startRecording = async (folder: string, name: string): Promise<Recording> => {
+  await fs.promises.mkdir(folder, { recursive: true })
+  const destination = path.join(folder, path.basename(name) || 'recording.webm')
+  await fs.promises.writeFile(destination, Buffer.alloc(0), { flag: 'wx' })
+
+  const recordingId = randomBytes(16).toString('hex')
+  recordings.set(recordingId, destination)
+  return { recordingId, path: destination }
+}
+
+// Chunks arrive in order from the renderer's MediaRecorder
+export const appendRecordingChunk = async (recordingId: string, data: Buffer): Promise<void> => {
+  const destination = recordings.get(recordingId)
+  if (!destination) {
+    throw new Error('Unknown recording')
+  }
+  await fs.promises.appendFile(destination, data)
+}
+
+// Resolves with the finished file's path and size in bytes
+export const stopRecording = async (recordingId: string): Promise<{ path: string; size: number }> => {
+  const destination = recordings.get(recordingId)
+  if (!destination) {
+    throw new Error('Unknown recording')
+  }
+
+  recordings.delete(recordingId)
+  const stats = await fs.promises.stat(destination)
+  return { path: destination, size: stats.size }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest'
+import { AppSettings, DEFAULT_SETTINGS, validateSettings } from './settings'
+
+// electron-store needs the Electron runtime, and validation never touches it
+vi.mock('electron-store', () => ({ default: class {} }))
+
+const withSettings = (changes: Partial<AppSettings>): AppSettings => ({ ...DEFAULT_SETTINGS, ...changes })
+
+describe('validateSettings', () => {
+  it('accepts the defaults', () => {
+    expect(() => validateSettings(DEFAULT_SETTINGS)).not.toThrow()
+  })
+
+  it.each([
+    ['ws://192.168.1.20:8080'],
+    ['wss://signal.example.com'],
+  ])('accepts the signaling URL %s', (signalingUrl) => {
+    expect(() => validateSettings(withSettings({ signalingUrl }))).not.toThrow()
+  })
+
+  it.each([
+    ['not a url', 'Signaling URL is not a valid URL'],
+    ['', 'Signaling URL is not a valid URL'],
+    ['http://localhost:8080', 'Signaling URL must start with ws:// or wss://'],
+    ['https://localhost:8080', 'Signaling URL must start with ws:// or wss://'],
+    ['file:///etc/passwd', 'Signaling URL must start with ws:// or wss://'],
+  ])('rejects the signaling URL %j', (signalingUrl, message) => {
+    expect(() => validateSettings(withSettings({ signalingUrl }))).toThrow(message)
+  })
+
+  it.each([[1], [8080], [65535]])('accepts port %d', (listenPort) => {
+    expect(() => validateSettings(withSettings({ listenPort }))).not.toThrow()
+  })
+
+  it.each([[0], [-1], [65536], [80.5], [NaN], ['8080' as unknown as number]])('rejects port %j', (listenPort) => {
+    expect(() => validateSettings(withSettings({ listenPort }))).toThrow(
+      'Listen port must be a whole number between 1 and 65535'
+    )
+  })
+
+  it('accepts TURN servers with credentials', () => {
+    const iceServers = [
+      { urls: 'stun:stun.example.com:3478' },
+      { urls: 'turn:turn.example.com:3478', username: 'sam', credential: 'secret' },
+      { urls: 'turns:turn.example.com:5349', username: 'sam', credential: 'secret' },
+    ]
+    expect(() => validateSettings(withSettings({ iceServers }))).not.toThrow()
+  })
+
+  it.each([
+    [{ urls: 'http://stun.example.com' }, 'ICE server "http://stun.example.com" must start with stun:, turn: or turns:'],
+    [{ urls: '' }, 'ICE server "" must start with stun:, turn: or turns:'],
+    [{ urls: ['stun:stun.example.com'] }, 'must start with stun:, turn: or turns:'],
+    [null, 'ICE server "null" must start with stun:, turn: or turns:'],
+    [{ urls: 'turn:turn.example.com' }, 'TURN server "turn:turn.example.com" needs a username and credential'],
+    [
+      { urls: 'turns:turn.example.com', username: 'sam' },
+      'TURN server "turns:turn.example.com" needs a username and credential',
+    ],
+  ])('rejects the ICE server %j', (server, message) => {
+    const iceServers = [DEFAULT_SETTINGS.iceServers[0], server as AppSettings['iceServers'][number]]
+    expect(() => validateSettings(withSettings({ iceServers }))).toThrow(message)
+  })
+
+  it('rejects ICE servers that are not a list', () => {
+    const iceServers = { urls: 'stun:stun.example.com' } as unknown as AppSettings['iceServers']
+    expect(() => validateSettings(withSettings({ iceServers }))).toThrow('ICE servers must be a list')
+  })
+})
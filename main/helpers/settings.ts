@@ -0,0 +1,177 @@
+import fs from 'fs'
+import path from 'path'
+import Store from 'electron-store'
+import { normalizeFingerprint } from './certificate'
+
+export interface IceServerSetting {
+  urls: string
+  username?: string
+  credential?: string
+}
+
+export interface RememberedSource {
+  id: string
+  // Window ids change between runs, so windows are matched by name as well
+  name: string
+}
+
+// Encoder presets for the host's outgoing video, or 'auto' to adapt to each
+// viewer's connection
+export type QualityMode = 'text' | 'balanced' | 'motion' | 'auto'
+
+const QUALITY_MODES: QualityMode[] = ['text', 'balanced', 'motion', 'auto']
+
+export interface AppSettings {
+  // Where hosts and clients connect for signaling
+  signalingUrl: string
+  // Port the built-in signaling server listens on; applied on restart
+  listenPort: number
+  iceServers: IceServerSetting[]
+  // Serve wss:// from the built-in server; applied on restart
+  tlsEnabled: boolean
+  // PEM files for the built-in server. Empty to use the self-signed pair
+  // generated on first run.
+  tlsCertPath: string
+  tlsKeyPath: string
+  // SHA-256 fingerprint the signaling server's certificate must match when
+  // it is self-signed. Empty to rely on normal certificate validation.
+  pinnedFingerprint: string
+  // Screens, or the window, the host shared last
+  captureSources: RememberedSource[]
+  // Whether the host also shares what the computer is playing
+  shareSystemAudio: boolean
+  qualityMode: QualityMode
+  // Where session recordings are written. Empty for the system's Videos
+  // folder.
+  recordingFolder: string
+  // Where viewers' snapshots are written. Empty for the system's Pictures
+  // folder.
+  snapshotFolder: string
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  signalingUrl: 'wss://localhost:8080',
+  listenPort: 8080,
+  iceServers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' },
+  ],
+  tlsEnabled: true,
+  tlsCertPath: '',
+  tlsKeyPath: '',
+  pinnedFingerprint: '',
+  captureSources: [],
+  shareSystemAudio: false,
+  qualityMode: 'balanced',
+  recordingFolder: '',
+  snapshotFolder: '',
+}
+
+// Created on first use so the store lands in the userData path chosen at
+// startup rather than the default one
+let store: Store<AppSettings> | null = null
+
+const getStore = () => {
+  if (!store) {
+    store = new Store<AppSettings>({ name: 'settings', defaults: DEFAULT_SETTINGS })
+  }
+  return store
+}
+
+export const getSettings = (): AppSettings => {
+  const settingsStore = getStore()
+  return {
+    signalingUrl: settingsStore.get('signalingUrl'),
+    listenPort: settingsStore.get('listenPort'),
+    iceServers: settingsStore.get('iceServers'),
+    tlsEnabled: settingsStore.get('tlsEnabled'),
+    tlsCertPath: settingsStore.get('tlsCertPath'),
+    tlsKeyPath: settingsStore.get('tlsKeyPath'),
+    pinnedFingerprint: settingsStore.get('pinnedFingerprint'),
+    captureSources: settingsStore.get('captureSources'),
+    shareSystemAudio: settingsStore.get('shareSystemAudio'),
+    qualityMode: settingsStore.get('qualityMode'),
+    recordingFolder: settingsStore.get('recordingFolder'),
+    snapshotFolder: settingsStore.get('snapshotFolder'),
+  }
+}
+
+// Throws with a message suitable for showing to the user
+export const validateSettings = (settings: AppSettings) => {
+  let url: URL
+  try {
+    url = new URL(settings.signalingUrl)
+  } catch {
+    throw new Error('Signaling URL is not a valid URL')
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error('Signaling URL must start with ws:// or wss://')
+  }
+
+  if (!Number.isInteger(settings.listenPort) || settings.listenPort < 1 || settings.listenPort > 65535) {
+    throw new Error('Listen port must be a whole number between 1 and 65535')
+  }
+
+  if (!Array.isArray(settings.iceServers)) {
+    throw new Error('ICE servers must be a list')
+  }
+  settings.iceServers.forEach((server) => {
+    if (!server || typeof server.urls !== 'string' || !/^(stun|turns?):/.test(server.urls)) {
+      throw new Error(`ICE server "${server && server.urls}" must start with stun:, turn: or turns:`)
+    }
+    if (/^turns?:/.test(server.urls) && (!server.username || !server.credential)) {
+      throw new Error(`TURN server "${server.urls}" needs a username and credential`)
+    }
+  })
+
+  if (!!settings.tlsCertPath !== !!settings.tlsKeyPath) {
+    throw new Error('Certificate and private key files must be given together')
+  }
+  ;[settings.tlsCertPath, settings.tlsKeyPath].forEach((file) => {
+    if (file && !fs.existsSync(file)) {
+      throw new Error(`File not found: ${file}`)
+    }
+  })
+
+  if (settings.pinnedFingerprint && !normalizeFingerprint(settings.pinnedFingerprint)) {
+    throw new Error('Pinned fingerprint must be a SHA-256 fingerprint (64 hex digits)')
+  }
+
+  if (!Array.isArray(settings.captureSources) || settings.captureSources.some((source) =>
+    !source || typeof source.id !== 'string' || typeof source.name !== 'string')) {
+    throw new Error('Remembered capture sources are invalid')
+  }
+
+  if (QUALITY_MODES.indexOf(settings.qualityMode) === -1) {
+    throw new Error(`Unknown quality mode "${settings.qualityMode}"`)
+  }
+
+  if (typeof settings.recordingFolder !== 'string' ||
+    (settings.recordingFolder.trim() && !path.isAbsolute(settings.recordingFolder.trim()))) {
+    throw new Error('Recording folder must be a full path')
+  }
+
+  if (typeof settings.snapshotFolder !== 'string' ||
+    (settings.snapshotFolder.trim() && !path.isAbsolute(settings.snapshotFolder.trim()))) {
+    throw new Error('Snapshot folder must be a full path')
+  }
+}
+
+export const saveSettings = (settings: Partial<AppSettings>): AppSettings => {
+  const next = { ...getSettings(), ...settings }
+  validateSettings(next)
+
+  next.iceServers = next.iceServers.map((server) => ({
+    urls: server.urls.trim(),
+    ...(server.username ? { username: server.username } : {}),
+    ...(server.credential ? { credential: server.credential } : {}),
+  }))
+  next.tlsCertPath = next.tlsCertPath.trim()
+  next.tlsKeyPath = next.tlsKeyPath.trim()
+  next.recordingFolder = next.recordingFolder.trim()
+  next.snapshotFolder = next.snapshotFolder.trim()
+  next.pinnedFingerprint = next.pinnedFingerprint ? normalizeFingerprint(next.pinnedFingerprint)! : ''
+
+  getStore().set(next)
+  return getSettings()
+}
@@ -0,0 +1,17 @@
+import fs from 'fs'
+import path from 'path'
+
+// Snapshots saved during this run. Only these can be opened from the
+// renderer's gallery.
+const savedSnapshots: Set<string> = new Set()
+
+// Creates the folder if needed. Fails rather than overwrite an existing file.
+export const saveSnapshot = async (folder: string, name: string, png: Buffer): Promise<string> => {
+  await fs.promises.mkdir(folder, { recursive: true })
+  const destination = path.join(folder, path.basename(name) || 'snapshot.png')
+  await fs.promises.writeFile(destination, png, { flag: 'wx' })
+  savedSnapshots.add(destination)
+  return destination
+}
+
+export const isSavedSnapshot = (file: string): boolean => savedSnapshots.has(file)
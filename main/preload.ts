@@ -1,4 +1,8 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
+import type { RemoteInputEvent } from './helpers/input-injector'
+import type { AppSettings } from './helpers/settings'
+import type { ClipboardContent } from './helpers/clipboard'
+import type { AnnotationMessage } from './helpers/annotation'
 
 const handler = {
   send(channel: string, value: unknown) {
@@ -20,7 +24,33 @@ const handler = {
 
 contextBridge.exposeInMainWorld('ipc', handler)
 contextBridge.exposeInMainWorld('electronAPI', {
-  getDisplayMedia: () => ipcRenderer.invoke('get-display-media')
+  getDisplayMedia: () => ipcRenderer.invoke('get-display-media'),
+  getSettings: () => ipcRenderer.invoke('get-settings'),
+  saveSettings: (settings: Partial<AppSettings>) => ipcRenderer.invoke('save-settings', settings),
+  getCertificateFingerprint: () => ipcRenderer.invoke('get-certificate-fingerprint'),
+  isRemoteControlSupported: () => ipcRenderer.invoke('get-remote-control-supported'),
+  setRemoteControlEnabled: (enabled: boolean) => ipcRenderer.invoke('set-remote-control', enabled),
+  injectInput: (displayId: string, event: RemoteInputEvent) =>
+    ipcRenderer.invoke('inject-input', { displayId, event }),
+  readClipboard: () => ipcRenderer.invoke('clipboard-read'),
+  writeClipboard: (content: ClipboardContent) => ipcRenderer.invoke('clipboard-write', content),
+  startFileSave: (name: string) => ipcRenderer.invoke('file-save-start', name),
+  writeFileChunk: (saveId: string, offset: number, data: string) =>
+    ipcRenderer.invoke('file-save-chunk', { saveId, offset, data }),
+  finishFileSave: (saveId: string, size: number) => ipcRenderer.invoke('file-save-finish', { saveId, size }),
+  cancelFileSave: (saveId: string) => ipcRenderer.invoke('file-save-cancel', saveId),
+  saveTextFile: (defaultName: string, content: string) =>
+    ipcRenderer.invoke('save-text-file', { defaultName, content }),
+  startRecording: (name: string) => ipcRenderer.invoke('recording-start', name),
+  writeRecordingChunk: (recordingId: string, data: Uint8Array) =>
+    ipcRenderer.invoke('recording-chunk', { recordingId, data }),
+  stopRecording: (recordingId: string) => ipcRenderer.invoke('recording-stop', recordingId),
+  saveSnapshot: (name: string, data: Uint8Array, copyToClipboard: boolean) =>
+    ipcRenderer.invoke('snapshot-save', { name, data, copyToClipboard }),
+  openSnapshot: (file: string) => ipcRenderer.invoke('snapshot-open', file),
+  forwardAnnotation: (author: string, message: AnnotationMessage) =>
+    ipcRenderer.invoke('annotation-forward', { author, message }),
+  closeAnnotationOverlays: () => ipcRenderer.invoke('annotation-overlays-close')
 })
 
 export type IpcHandler = typeof handler
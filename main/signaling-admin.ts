@@ -0,0 +1,85 @@
+import { timingSafeEqual } from 'crypto'
+import http from 'http'
+import { Logger } from './signaling-logger'
+
+export interface AdminOptions {
+  port: number
+  // Defaults to loopback so the API is not exposed by accident
+  host?: string
+  // Required as "Authorization: Bearer <token>" on every request
+  token: string
+}
+
+export interface AdminSessionInfo {
+  id: string
+  clientCount: number
+  pendingCount: number
+  createdAt: Date
+  ageSeconds: number
+  passwordProtected: boolean
+  inviteOnly: boolean
+}
+
+// What the admin API needs from the signaling server
+export interface AdminTarget {
+  listSessions(): AdminSessionInfo[]
+  forceCloseSession(sessionId: string): boolean
+  renderMetrics(): string
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const isAuthorized = (req: http.IncomingMessage, token: string) => {
+  const header = req.headers.authorization || ''
+  const match = /^Bearer (.+)$/.exec(header)
+  if (!match) return false
+
+  const given = Buffer.from(match[1])
+  const expected = Buffer.from(token)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// GET    /sessions        list active sessions
+// DELETE /sessions/:id    force-close a session
+// GET    /metrics         Prometheus metrics
+export const createAdminServer = (target: AdminTarget, options: AdminOptions, logger: Logger): http.Server => {
+  const server = http.createServer((req, res) => {
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' })
+      res.end()
+      return
+    }
+
+    const pathname = (req.url || '/').split('?')[0]
+    const sessionMatch = /^\/sessions\/([^/]+)$/.exec(pathname)
+
+    if (pathname === '/sessions' && req.method === 'GET') {
+      sendJson(res, 200, { sessions: target.listSessions() })
+    } else if (sessionMatch && req.method === 'DELETE') {
+      const sessionId = decodeURIComponent(sessionMatch[1])
+      if (target.forceCloseSession(sessionId)) {
+        logger.info(`Session ${sessionId} force-closed through the admin API`)
+        sendJson(res, 200, { closed: sessionId })
+      } else {
+        sendJson(res, 404, { error: 'Session not found' })
+      }
+    } else if (pathname === '/metrics' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' })
+      res.end(target.renderMetrics())
+    } else {
+      sendJson(res, 404, { error: 'Not found' })
+    }
+  })
+
+  server.on('error', (error) => {
+    logger.error(`Admin API could not listen on port ${options.port}:`, error)
+  })
+  server.listen(options.port, options.host || '127.0.0.1', () => {
+    logger.info(`Admin API listening on http://${options.host || '127.0.0.1'}:${options.port}`)
+  })
+
+  return server
+}
@@ -0,0 +1,26 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export interface Logger {
+  debug(...args: unknown[]): void
+  info(...args: unknown[]): void
+  warn(...args: unknown[]): void
+  error(...args: unknown[]): void
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+
+export const isLogLevel = (value: string): value is LogLevel =>
+  LOG_LEVELS.indexOf(value as LogLevel) !== -1
+
+// Console logger that drops anything below the given level
+export const createLogger = (level: LogLevel = 'info'): Logger => {
+  const threshold = LOG_LEVELS.indexOf(level)
+  const enabled = (messageLevel: LogLevel) => LOG_LEVELS.indexOf(messageLevel) >= threshold
+
+  return {
+    debug: (...args) => enabled('debug') && console.debug(...args),
+    info: (...args) => enabled('info') && console.log(...args),
+    warn: (...args) => enabled('warn') && console.warn(...args),
+    error: (...args) => enabled('error') && console.error(...args),
+  }
+}
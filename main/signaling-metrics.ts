@@ -0,0 +1,51 @@
+// Counters for the signaling server, rendered in the Prometheus text
+// exposition format.
+export class SignalingMetrics {
+  private sessionsCreated: number = 0
+  private joins: number = 0
+  private joinFailures: Map<string, number> = new Map()
+  private messagesForwarded: Map<string, number> = new Map()
+
+  public recordSessionCreated() {
+    this.sessionsCreated++
+  }
+
+  public recordJoin() {
+    this.joins++
+  }
+
+  public recordJoinFailure(reason: string) {
+    this.joinFailures.set(reason, (this.joinFailures.get(reason) || 0) + 1)
+  }
+
+  public recordForwarded(type: string) {
+    this.messagesForwarded.set(type, (this.messagesForwarded.get(type) || 0) + 1)
+  }
+
+  public render(gauges: { activeSessions: number; activeClients: number; connections: number }): string {
+    const lines: string[] = []
+
+    const metric = (name: string, type: 'counter' | 'gauge', help: string, samples: Array<[string, number]>) => {
+      lines.push(`# HELP ${name} ${help}`)
+      lines.push(`# TYPE ${name} ${type}`)
+      samples.forEach(([labels, value]) => lines.push(`${name}${labels} ${value}`))
+    }
+
+    const labelled = (label: string, values: Map<string, number>): Array<[string, number]> =>
+      Array.from(values.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => [`{${label}="${key.replace(/["\\\n]/g, '_')}"}`, value])
+
+    metric('deskviewer_sessions_created_total', 'counter', 'Sessions created since start', [['', this.sessionsCreated]])
+    metric('deskviewer_joins_total', 'counter', 'Viewers admitted to a session', [['', this.joins]])
+    metric('deskviewer_join_failures_total', 'counter', 'Join attempts that were refused, by reason',
+      labelled('reason', this.joinFailures))
+    metric('deskviewer_messages_forwarded_total', 'counter', 'Signaling messages relayed between peers, by type',
+      labelled('type', this.messagesForwarded))
+    metric('deskviewer_active_sessions', 'gauge', 'Sessions currently open', [['', gauges.activeSessions]])
+    metric('deskviewer_active_clients', 'gauge', 'Viewers currently admitted to a session', [['', gauges.activeClients]])
+    metric('deskviewer_connections', 'gauge', 'Open WebSocket connections', [['', gauges.connections]])
+
+    return lines.join('\n') + '\n'
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_CHAT_MESSAGE_LENGTH, ProtocolError, parseClientMessage, parseServerMessage } from './signaling-protocol'
+
+const errorCode = (parse: () => unknown): string | undefined => {
+  try {
+    parse()
+  } catch (error) {
+    return error instanceof ProtocolError ? error.code : undefined
+  }
+  return undefined
+}
+
+describe('parseClientMessage', () => {
+  it('returns valid messages unchanged', () => {
+    const raw = { type: 'join_session', sessionId: 'ABC123', clientId: 'viewer-1', displayName: 'Sam' }
+    expect(parseClientMessage(JSON.stringify(raw))).toEqual(raw)
+  })
+
+  it('allows optional fields to be left out', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'create_session' }))).toEqual({ type: 'create_session' })
+  })
+
+  it('rejects malformed JSON and non-objects', () => {
+    expect(errorCode(() => parseClientMessage('{'))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage('[]'))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage('null'))).toBe('invalid_message')
+  })
+
+  it('rejects unknown types, including server-only ones', () => {
+    expect(errorCode(() => parseClientMessage(JSON.stringify({ type: 'nope' })))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage(JSON.stringify({ type: 'welcome', protocolVersion: 1 })))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage(JSON.stringify({ type: 'toString' })))).toBe('invalid_message')
+  })
+
+  it('rejects missing, empty or mistyped fields', () => {
+    expect(errorCode(() => parseClientMessage(JSON.stringify({ type: 'hello' })))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage(JSON.stringify({ type: 'end_session', sessionId: '' })))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage(JSON.stringify({
+      type: 'create_invite', sessionId: 'ABC123', singleUse: 'yes'
+    })))).toBe('invalid_message')
+    expect(errorCode(() => parseClientMessage(JSON.stringify({
+      type: 'offer', sessionId: 'ABC123', clientId: 'viewer-1', sdp: { type: 'bogus' }
+    })))).toBe('invalid_message')
+  })
+
+  it('rejects chat messages over the length limit', () => {
+    const chat = (text: string) => JSON.stringify({
+      type: 'chat_message',
+      sessionId: 'ABC123',
+      clientId: 'viewer-1',
+      messageId: 'm1',
+      senderName: 'Sam',
+      text,
+      sentAt: 0
+    })
+    expect(parseClientMessage(chat('x'.repeat(MAX_CHAT_MESSAGE_LENGTH))).type).toBe('chat_message')
+    expect(errorCode(() => parseClientMessage(chat('x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1))))).toBe('invalid_message')
+  })
+})
+
+describe('parseServerMessage', () => {
+  it('accepts server messages and relayed client messages', () => {
+    expect(parseServerMessage(JSON.stringify({ type: 'host_resumed', sessionId: 'ABC123' })).type).toBe('host_resumed')
+    expect(parseServerMessage(JSON.stringify({
+      type: 'ice_candidate', sessionId: 'ABC123', clientId: 'viewer-1', candidate: { candidate: '' }
+    })).type).toBe('ice_candidate')
+  })
+
+  it('rejects client-only messages', () => {
+    expect(errorCode(() => parseServerMessage(JSON.stringify({ type: 'end_session', sessionId: 'ABC123' })))).toBe('invalid_message')
+  })
+
+  it('rejects a non-finite protocol version', () => {
+    expect(errorCode(() => parseServerMessage('{"type":"welcome","protocolVersion":"8"}'))).toBe('invalid_message')
+  })
+})
@@ -0,0 +1,220 @@
+// Wire format shared by SignalingServer and the renderer's WebRTCManager.
+// Bump PROTOCOL_VERSION whenever a message changes shape; peers on different
+// versions are refused during the hello/welcome handshake.
+export const PROTOCOL_VERSION = 8
+
+// Longest chat message, in characters, relayed through the server
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+
+export interface SessionDescription {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback'
+  sdp?: string
+}
+
+export interface IceCandidate {
+  candidate: string
+  sdpMid?: string | null
+  sdpMLineIndex?: number | null
+  usernameFragment?: string | null
+}
+
+export type SessionErrorCode =
+  | 'invalid_message'
+  | 'handshake_required'
+  | 'protocol_mismatch'
+  | 'session_not_found'
+  | 'password_required'
+  | 'invalid_password'
+  | 'join_denied'
+  | 'join_timeout'
+  | 'session_closed'
+  | 'resume_failed'
+  | 'not_authorized'
+  | 'rate_limited'
+  | 'locked_out'
+  | 'server_full'
+  | 'session_full'
+  | 'invite_required'
+  | 'invalid_invite'
+
+// Messages sent by hosts and clients to the server
+export type ClientMessage =
+  | { type: 'hello'; protocolVersion: number }
+  // The server picks the session code and returns it in session_created
+  | { type: 'create_session'; password?: string }
+  | {
+      type: 'join_session'
+      sessionId: string
+      clientId: string
+      password?: string
+      displayName?: string
+      inviteToken?: string
+    }
+  // Once a host creates an invite, the bare session code stops admitting anyone
+  | { type: 'create_invite'; sessionId: string; singleUse: boolean; ttlSeconds?: number }
+  | { type: 'join_response'; sessionId: string; clientId: string; accepted: boolean }
+  | { type: 'leave_session'; sessionId: string; clientId: string }
+  | { type: 'end_session'; sessionId: string }
+  // Reclaims a place in a session after the socket dropped; hosts omit clientId
+  | { type: 'resume_session'; sessionId: string; resumeToken: string; clientId?: string }
+  | { type: 'offer'; sessionId: string; clientId: string; sdp: SessionDescription }
+  | { type: 'answer'; sessionId: string; clientId: string; sdp: SessionDescription }
+  | { type: 'ice_candidate'; sessionId: string; clientId: string; candidate: IceCandidate }
+  // A viewer whose media path failed asks the host for an ICE restart offer
+  | { type: 'ice_restart_request'; sessionId: string; clientId: string }
+  // Chat for when the peer connection is not up. Addressed like ice_candidate:
+  // the host names the viewer, a viewer names itself. sentAt is milliseconds
+  // since the epoch.
+  | {
+      type: 'chat_message'
+      sessionId: string
+      clientId: string
+      messageId: string
+      senderName: string
+      text: string
+      sentAt: number
+    }
+
+// Messages sent by the server. Offers, answers and candidates are forwarded
+// unchanged, so the relayed forms share the ClientMessage shapes.
+export type ServerMessage =
+  | { type: 'welcome'; protocolVersion: number }
+  | { type: 'session_error'; code: SessionErrorCode; error: string; protocolVersion?: number }
+  | { type: 'session_created'; sessionId: string; resumeToken: string }
+  // expiresAt is in milliseconds since the epoch; absent for invites that never expire
+  | { type: 'invite_created'; sessionId: string; inviteToken: string; singleUse: boolean; expiresAt?: number }
+  | { type: 'session_joined'; sessionId: string; clientId: string; resumeToken: string }
+  | { type: 'session_resumed'; sessionId: string; clientId?: string }
+  | { type: 'join_pending'; sessionId: string; clientId: string }
+  | { type: 'join_request'; sessionId: string; clientId: string; displayName: string }
+  | { type: 'join_cancelled'; sessionId: string; clientId: string }
+  | { type: 'client_joined'; sessionId: string; clientId: string; displayName?: string }
+  | { type: 'client_left'; sessionId: string; clientId: string }
+  | { type: 'client_disconnected'; sessionId: string; clientId: string }
+  | { type: 'host_disconnected'; sessionId: string }
+  | { type: 'host_reconnecting'; sessionId: string }
+  | { type: 'host_resumed'; sessionId: string }
+  | { type: 'server_shutdown'; reason: string }
+  | Extract<ClientMessage, { type: 'offer' | 'answer' | 'ice_candidate' | 'ice_restart_request' | 'chat_message' }>
+
+export type SignalingMessage = ClientMessage | ServerMessage
+
+export class ProtocolError extends Error {
+  constructor(public readonly code: SessionErrorCode, message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+type FieldCheck = (value: unknown) => boolean
+type MessageSchema = Record<string, FieldCheck>
+
+const isString: FieldCheck = (value) => typeof value === 'string' && value.length > 0
+const isNumber: FieldCheck = (value) => typeof value === 'number' && isFinite(value)
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean'
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value)
+
+const isSessionDescription: FieldCheck = (value) => {
+  if (!value || typeof value !== 'object') return false
+  const description = value as Record<string, unknown>
+  return ['offer', 'answer', 'pranswer', 'rollback'].indexOf(description.type as string) !== -1 &&
+    optional((sdp) => typeof sdp === 'string')(description.sdp)
+}
+
+const isIceCandidate: FieldCheck = (value) => {
+  if (!value || typeof value !== 'object') return false
+  const candidate = value as Record<string, unknown>
+  return typeof candidate.candidate === 'string'
+}
+
+const isChatText: FieldCheck = (value) => isString(value) && (value as string).length <= MAX_CHAT_MESSAGE_LENGTH
+
+const SESSION_FIELDS: MessageSchema = { sessionId: isString, clientId: isString }
+
+const CLIENT_SCHEMAS: Record<ClientMessage['type'], MessageSchema> = {
+  hello: { protocolVersion: isNumber },
+  create_session: { password: optional(isString) },
+  join_session: {
+    ...SESSION_FIELDS,
+    password: optional(isString),
+    displayName: optional(isString),
+    inviteToken: optional(isString)
+  },
+  create_invite: { sessionId: isString, singleUse: isBoolean, ttlSeconds: optional(isNumber) },
+  join_response: { ...SESSION_FIELDS, accepted: isBoolean },
+  leave_session: SESSION_FIELDS,
+  end_session: { sessionId: isString },
+  resume_session: { sessionId: isString, resumeToken: isString, clientId: optional(isString) },
+  offer: { ...SESSION_FIELDS, sdp: isSessionDescription },
+  answer: { ...SESSION_FIELDS, sdp: isSessionDescription },
+  ice_candidate: { ...SESSION_FIELDS, candidate: isIceCandidate },
+  ice_restart_request: SESSION_FIELDS,
+  chat_message: {
+    ...SESSION_FIELDS,
+    messageId: isString,
+    senderName: isString,
+    text: isChatText,
+    sentAt: isNumber
+  },
+}
+
+const SERVER_SCHEMAS: Record<ServerMessage['type'], MessageSchema> = {
+  welcome: { protocolVersion: isNumber },
+  session_error: { code: isString, error: isString, protocolVersion: optional(isNumber) },
+  session_created: { sessionId: isString, resumeToken: isString },
+  invite_created: { sessionId: isString, inviteToken: isString, singleUse: isBoolean, expiresAt: optional(isNumber) },
+  session_joined: { ...SESSION_FIELDS, resumeToken: isString },
+  session_resumed: { sessionId: isString, clientId: optional(isString) },
+  join_pending: SESSION_FIELDS,
+  join_request: { ...SESSION_FIELDS, displayName: isString },
+  join_cancelled: SESSION_FIELDS,
+  client_joined: { ...SESSION_FIELDS, displayName: optional(isString) },
+  client_left: SESSION_FIELDS,
+  client_disconnected: SESSION_FIELDS,
+  host_disconnected: { sessionId: isString },
+  host_reconnecting: { sessionId: isString },
+  host_resumed: { sessionId: isString },
+  server_shutdown: { reason: isString },
+  offer: CLIENT_SCHEMAS.offer,
+  answer: CLIENT_SCHEMAS.answer,
+  ice_candidate: CLIENT_SCHEMAS.ice_candidate,
+  ice_restart_request: CLIENT_SCHEMAS.ice_restart_request,
+  chat_message: CLIENT_SCHEMAS.chat_message,
+}
+
+const parseMessage = <T extends SignalingMessage>(
+  raw: string,
+  schemas: Record<string, MessageSchema>
+): T => {
+  let message: unknown
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    throw new ProtocolError('invalid_message', 'Message is not valid JSON')
+  }
+
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    throw new ProtocolError('invalid_message', 'Message must be a JSON object')
+  }
+
+  const fields = message as Record<string, unknown>
+  const type = fields.type
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(schemas, type)) {
+    throw new ProtocolError('invalid_message', `Unknown message type: ${String(type)}`)
+  }
+
+  const schema = schemas[type]
+  for (const field of Object.keys(schema)) {
+    if (!schema[field](fields[field])) {
+      throw new ProtocolError('invalid_message', `Invalid or missing field "${field}" in ${type} message`)
+    }
+  }
+
+  return message as T
+}
+
+export const parseClientMessage = (raw: string): ClientMessage =>
+  parseMessage<ClientMessage>(raw, CLIENT_SCHEMAS)
+
+export const parseServerMessage = (raw: string): ServerMessage =>
+  parseMessage<ServerMessage>(raw, SERVER_SCHEMAS)
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FailureLockout, RateLimiter } from './signaling-rate-limit'
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('RateLimiter', () => {
+  it('refuses events past the limit', () => {
+    const limiter = new RateLimiter<string>(3, 1000)
+
+    expect([1, 2, 3, 4].map(() => limiter.tryAcquire('a'))).toEqual([true, true, true, false])
+    expect(limiter.tryAcquire('b')).toBe(true)
+  })
+
+  it('lets events back in as the oldest leave the window', () => {
+    const limiter = new RateLimiter<string>(2, 1000)
+
+    expect(limiter.tryAcquire('a')).toBe(true)
+    vi.advanceTimersByTime(400)
+    expect(limiter.tryAcquire('a')).toBe(true)
+
+    vi.advanceTimersByTime(599)
+    expect(limiter.tryAcquire('a')).toBe(false)
+    vi.advanceTimersByTime(1)
+    expect(limiter.tryAcquire('a')).toBe(true)
+    // The event at 400ms is still in the window
+    expect(limiter.tryAcquire('a')).toBe(false)
+
+    vi.advanceTimersByTime(400)
+    expect(limiter.tryAcquire('a')).toBe(true)
+  })
+
+  it('does not count refused events', () => {
+    const limiter = new RateLimiter<string>(1, 1000)
+
+    expect(limiter.tryAcquire('a')).toBe(true)
+    vi.advanceTimersByTime(500)
+    expect(limiter.tryAcquire('a')).toBe(false)
+    vi.advanceTimersByTime(500)
+    expect(limiter.tryAcquire('a')).toBe(true)
+  })
+
+  it('forgets a deleted key', () => {
+    const limiter = new RateLimiter<string>(1, 1000)
+
+    limiter.tryAcquire('a')
+    limiter.delete('a')
+    expect(limiter.tryAcquire('a')).toBe(true)
+  })
+
+  it('prunes only keys whose events have all left the window', () => {
+    const limiter = new RateLimiter<string>(5, 1000)
+
+    limiter.tryAcquire('old')
+    vi.advanceTimersByTime(600)
+    limiter.tryAcquire('recent')
+    vi.advanceTimersByTime(400)
+    expect(limiter.size).toBe(2)
+
+    limiter.prune()
+    expect(limiter.size).toBe(1)
+    vi.advanceTimersByTime(600)
+    limiter.prune()
+    expect(limiter.size).toBe(0)
+  })
+})
+
+describe('FailureLockout', () => {
+  it('locks a key out on the failure after the allowed number', () => {
+    const lockout = new FailureLockout<string>(2, 60000)
+
+    expect(lockout.recordFailure('a')).toBe(false)
+    expect(lockout.recordFailure('a')).toBe(false)
+    expect(lockout.remaining('a')).toBe(0)
+
+    expect(lockout.recordFailure('a')).toBe(true)
+    expect(lockout.remaining('a')).toBe(60000)
+    expect(lockout.remaining('b')).toBe(0)
+  })
+
+  it('does not lock out failures spread wider than the lockout span', () => {
+    const lockout = new FailureLockout<string>(2, 60000)
+
+    lockout.recordFailure('a')
+    lockout.recordFailure('a')
+    vi.advanceTimersByTime(60000)
+    expect(lockout.recordFailure('a')).toBe(false)
+    expect(lockout.remaining('a')).toBe(0)
+  })
+
+  it('lifts the lockout once it runs out and starts counting afresh', () => {
+    const lockout = new FailureLockout<string>(1, 60000)
+
+    lockout.recordFailure('a')
+    lockout.recordFailure('a')
+    vi.advanceTimersByTime(59999)
+    expect(lockout.remaining('a')).toBe(1)
+
+    vi.advanceTimersByTime(1)
+    expect(lockout.remaining('a')).toBe(0)
+    expect(lockout.recordFailure('a')).toBe(false)
+  })
+
+  it('prunes expired lockouts and failures', () => {
+    const lockout = new FailureLockout<string>(1, 60000)
+
+    lockout.recordFailure('locked')
+    lockout.recordFailure('locked')
+    vi.advanceTimersByTime(30000)
+    lockout.recordFailure('failed')
+    expect(lockout.size).toBe(2)
+
+    vi.advanceTimersByTime(30000)
+    lockout.prune()
+    expect(lockout.size).toBe(1)
+    expect(lockout.remaining('locked')).toBe(0)
+
+    vi.advanceTimersByTime(30000)
+    lockout.prune()
+    expect(lockout.size).toBe(0)
+  })
+})
@@ -0,0 +1,113 @@
+export interface SignalingLimits {
+  // Length of the sliding window the per-window limits below apply to
+  rateWindowMs: number
+  joinsPerConnection: number
+  joinsPerIp: number
+  createsPerConnection: number
+  createsPerIp: number
+  // Misses (unknown session or wrong password) an address may make within
+  // lockoutMs; the next one locks it out for lockoutMs
+  maxFailedJoins: number
+  lockoutMs: number
+  maxSessions: number
+  // Admitted viewers plus those waiting for approval
+  maxClientsPerSession: number
+}
+
+export const DEFAULT_LIMITS: SignalingLimits = {
+  rateWindowMs: 60 * 1000,
+  joinsPerConnection: 10,
+  joinsPerIp: 30,
+  createsPerConnection: 5,
+  createsPerIp: 20,
+  maxFailedJoins: 10,
+  lockoutMs: 15 * 60 * 1000,
+  maxSessions: 1000,
+  maxClientsPerSession: 10,
+}
+
+// Allows at most `limit` events per key within any `windowMs` span
+export class RateLimiter<K> {
+  private events: Map<K, number[]> = new Map()
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  private recent(key: K, now: number): number[] {
+    const timestamps = (this.events.get(key) || []).filter((time) => now - time < this.windowMs)
+    if (timestamps.length > 0) {
+      this.events.set(key, timestamps)
+    } else {
+      this.events.delete(key)
+    }
+    return timestamps
+  }
+
+  // Records the event and reports whether it was within the limit
+  public tryAcquire(key: K): boolean {
+    const now = Date.now()
+    const timestamps = this.recent(key, now)
+    if (timestamps.length >= this.limit) return false
+
+    timestamps.push(now)
+    this.events.set(key, timestamps)
+    return true
+  }
+
+  public delete(key: K) {
+    this.events.delete(key)
+  }
+
+  // Keys with events kept, some of which may have left the window since
+  public get size(): number {
+    return this.events.size
+  }
+
+  // Drops keys whose events have all left the window
+  public prune() {
+    const now = Date.now()
+    Array.from(this.events.keys()).forEach((key) => this.recent(key, now))
+  }
+}
+
+// Locks a key out for `lockoutMs` once it fails more than `maxFailures`
+// times within the same span
+export class FailureLockout<K> {
+  private failures: RateLimiter<K>
+  private lockedUntil: Map<K, number> = new Map()
+
+  constructor(maxFailures: number, private lockoutMs: number) {
+    this.failures = new RateLimiter(maxFailures, lockoutMs)
+  }
+
+  // Milliseconds left on the key's lockout, or 0 when it is not locked
+  public remaining(key: K): number {
+    const until = this.lockedUntil.get(key)
+    if (until === undefined) return 0
+
+    const left = until - Date.now()
+    if (left <= 0) {
+      this.lockedUntil.delete(key)
+      return 0
+    }
+    return left
+  }
+
+  // Returns true when this failure triggered a lockout
+  public recordFailure(key: K): boolean {
+    if (this.failures.tryAcquire(key)) return false
+
+    this.failures.delete(key)
+    this.lockedUntil.set(key, Date.now() + this.lockoutMs)
+    return true
+  }
+
+  // Keys with failures or a lockout kept, either of which may have expired
+  public get size(): number {
+    return this.failures.size + this.lockedUntil.size
+  }
+
+  public prune() {
+    this.failures.prune()
+    Array.from(this.lockedUntil.keys()).forEach((key) => this.remaining(key))
+  }
+}
@@ -0,0 +1,162 @@
+// Runs SignalingServer as a plain Node process, without Electron.
+//
+//   node signaling-server-cli.js --port 8080 --host 0.0.0.0 \
+//     --tls-cert cert.pem --tls-key key.pem --log-level info
+//
+// Every flag can also be set through the environment: DESKVIEWER_PORT (or
+// PORT), DESKVIEWER_HOST, DESKVIEWER_TLS_CERT, DESKVIEWER_TLS_KEY,
+// DESKVIEWER_LOG_LEVEL, DESKVIEWER_ADMIN_PORT, DESKVIEWER_ADMIN_HOST and
+// DESKVIEWER_ADMIN_TOKEN. Flags win over the environment.
+import fs from 'fs'
+import SignalingServer, { SignalingServerOptions } from './websocket-server'
+import { LOG_LEVELS, isLogLevel } from './signaling-logger'
+
+interface CliConfig {
+  port: number
+  host?: string
+  tlsCert?: string
+  tlsKey?: string
+  logLevel: string
+  adminPort?: number
+  adminHost?: string
+  adminToken?: string
+}
+
+const USAGE = `Usage: signaling-server [options]
+
+Options:
+  --port <number>        Port to listen on (default 8080)
+  --host <address>       Address to bind (default all interfaces)
+  --tls-cert <path>      PEM certificate; serves wss:// together with --tls-key
+  --tls-key <path>       PEM private key
+  --log-level <level>    One of ${LOG_LEVELS.join(', ')} (default info)
+  --admin-port <number>  Serve the admin and metrics API on this port
+  --admin-host <address> Address for the admin API (default 127.0.0.1)
+  --admin-token <token>  Bearer token required by the admin API
+  --help                 Show this message`
+
+const FLAGS: Record<string, keyof CliConfig> = {
+  '--port': 'port',
+  '--host': 'host',
+  '--tls-cert': 'tlsCert',
+  '--tls-key': 'tlsKey',
+  '--log-level': 'logLevel',
+  '--admin-port': 'adminPort',
+  '--admin-host': 'adminHost',
+  '--admin-token': 'adminToken',
+}
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`)
+  process.exit(2)
+}
+
+const parseConfig = (argv: string[], env: NodeJS.ProcessEnv): CliConfig => {
+  const values: Record<string, string | undefined> = {
+    port: env.DESKVIEWER_PORT || env.PORT,
+    host: env.DESKVIEWER_HOST,
+    tlsCert: env.DESKVIEWER_TLS_CERT,
+    tlsKey: env.DESKVIEWER_TLS_KEY,
+    logLevel: env.DESKVIEWER_LOG_LEVEL,
+    adminPort: env.DESKVIEWER_ADMIN_PORT,
+    adminHost: env.DESKVIEWER_ADMIN_HOST,
+    adminToken: env.DESKVIEWER_ADMIN_TOKEN,
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE)
+      process.exit(0)
+    }
+
+    // Accept both "--port 8080" and "--port=8080"
+    const [flag, inline] = arg.split('=', 2)
+    const key = FLAGS[flag]
+    if (!key) fail(`Unknown option: ${arg}`)
+
+    const value = inline !== undefined ? inline : argv[++i]
+    if (value === undefined) fail(`Missing value for ${flag}`)
+    values[key] = value
+  }
+
+  const port = values.port ? Number(values.port) : 8080
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    fail(`Invalid port: ${values.port}`)
+  }
+
+  const logLevel = values.logLevel || 'info'
+  if (!isLogLevel(logLevel)) fail(`Invalid log level: ${logLevel}`)
+
+  if (!!values.tlsCert !== !!values.tlsKey) {
+    fail('--tls-cert and --tls-key must be given together')
+  }
+
+  let adminPort: number | undefined
+  if (values.adminPort) {
+    adminPort = Number(values.adminPort)
+    if (!Number.isInteger(adminPort) || adminPort < 1 || adminPort > 65535) {
+      fail(`Invalid admin port: ${values.adminPort}`)
+    }
+    if (!values.adminToken) fail('--admin-port requires --admin-token')
+  }
+
+  return {
+    port,
+    host: values.host,
+    tlsCert: values.tlsCert,
+    tlsKey: values.tlsKey,
+    logLevel,
+    adminPort,
+    adminHost: values.adminHost,
+    adminToken: values.adminToken,
+  }
+}
+
+const main = async () => {
+  const config = parseConfig(process.argv.slice(2), process.env)
+
+  const options: SignalingServerOptions = {
+    host: config.host,
+    logLevel: isLogLevel(config.logLevel) ? config.logLevel : 'info',
+  }
+  if (config.tlsCert && config.tlsKey) {
+    options.tls = {
+      cert: fs.readFileSync(config.tlsCert),
+      key: fs.readFileSync(config.tlsKey),
+    }
+  }
+  if (config.adminPort && config.adminToken) {
+    options.admin = {
+      port: config.adminPort,
+      host: config.adminHost,
+      token: config.adminToken,
+    }
+  }
+
+  const server = new SignalingServer(config.port, options)
+  try {
+    await server.listening
+  } catch {
+    process.exit(1)
+  }
+
+  let stopping = false
+  const stop = (signal: string) => {
+    if (stopping) return
+    stopping = true
+    console.log(`Received ${signal}, shutting down`)
+    server.shutdown().then(
+      () => process.exit(0),
+      (error) => {
+        console.error('Error during shutdown:', error)
+        process.exit(1)
+      }
+    )
+  }
+
+  process.on('SIGTERM', () => stop('SIGTERM'))
+  process.on('SIGINT', () => stop('SIGINT'))
+}
+
+main()
@@ -0,0 +1,326 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { WebSocket } from 'ws'
+import SignalingServer, { SignalingServerOptions } from './websocket-server'
+import { PROTOCOL_VERSION, ClientMessage, ServerMessage } from './signaling-protocol'
+
+// A host or viewer speaking the signaling protocol over a real socket
+class TestPeer {
+  private received: ServerMessage[] = []
+  private waiters: Array<() => void> = []
+
+  private constructor(private readonly ws: WebSocket) {
+    ws.on('message', (data) => {
+      this.received.push(JSON.parse(data.toString()))
+      this.waiters.splice(0).forEach((wake) => wake())
+    })
+  }
+
+  static async connect(server: SignalingServer): Promise<TestPeer> {
+    const ws = new WebSocket(`ws://127.0.0.1:${server.port}`)
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve)
+      ws.once('error', reject)
+    })
+    const peer = new TestPeer(ws)
+    peer.send({ type: 'hello', protocolVersion: PROTOCOL_VERSION })
+    await peer.next('welcome')
+    return peer
+  }
+
+  public send(message: ClientMessage) {
+    this.ws.send(JSON.stringify(message))
+  }
+
+  // Resolves with the first unread message of the given type
+  public async next<T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>> {
+    for (;;) {
+      const index = this.received.findIndex((message) => message.type === type)
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0] as Extract<ServerMessage, { type: T }>
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve))
+    }
+  }
+
+  // Resolves with the code of the next session_error
+  public async nextError(): Promise<string> {
+    return (await this.next('session_error')).code
+  }
+
+  public has(type: ServerMessage['type']): boolean {
+    return this.received.some((message) => message.type === type)
+  }
+
+  public close() {
+    this.ws.close()
+  }
+}
+
+let server: SignalingServer | null = null
+let peers: TestPeer[] = []
+
+const startServer = async (options: SignalingServerOptions = {}) => {
+  server = new SignalingServer(0, { host: '127.0.0.1', logLevel: 'silent', heartbeatIntervalMs: 0, ...options })
+  await server.listening
+  return server
+}
+
+const connect = async () => {
+  const peer = await TestPeer.connect(server)
+  peers.push(peer)
+  return peer
+}
+
+// Connects a host and creates a session, optionally with a password
+const hostSession = async (password?: string) => {
+  const host = await connect()
+  host.send({ type: 'create_session', password })
+  const { sessionId } = await host.next('session_created')
+  return { host, sessionId }
+}
+
+// Gives real socket traffic, such as pongs, a moment to arrive
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20))
+
+afterEach(async () => {
+  vi.useRealTimers()
+  peers.forEach((peer) => peer.close())
+  peers = []
+  await server?.shutdown()
+  server = null
+})
+
+describe('SignalingServer passwords', () => {
+  it('asks for the password when none is given', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession('hunter2')
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1' })
+    expect(await viewer.nextError()).toBe('password_required')
+    expect(host.has('join_request')).toBe(false)
+  })
+
+  it('refuses a wrong password', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession('hunter2')
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', password: 'hunter3' })
+    expect(await viewer.nextError()).toBe('invalid_password')
+    expect(host.has('join_request')).toBe(false)
+  })
+
+  it('passes the right password on to the host for approval', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession('hunter2')
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', password: 'hunter2', displayName: 'Sam' })
+    await viewer.next('join_pending')
+    expect(await host.next('join_request')).toMatchObject({ clientId: 'viewer-1', displayName: 'Sam' })
+  })
+
+  it('locks out an address after repeated wrong passwords', async () => {
+    await startServer({ limits: { maxFailedJoins: 2 } })
+    const { sessionId } = await hostSession('hunter2')
+    const viewer = await connect()
+
+    for (let i = 0; i < 3; i++) {
+      viewer.send({ type: 'join_session', sessionId, clientId: `viewer-${i}`, password: 'wrong' })
+      expect(await viewer.nextError()).toBe('invalid_password')
+    }
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-4', password: 'hunter2' })
+    expect(await viewer.nextError()).toBe('locked_out')
+  })
+})
+
+describe('SignalingServer join approval', () => {
+  it('admits a viewer the host accepts', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', displayName: 'Sam' })
+    await host.next('join_request')
+    host.send({ type: 'join_response', sessionId, clientId: 'viewer-1', accepted: true })
+
+    expect(await viewer.next('session_joined')).toMatchObject({ sessionId, clientId: 'viewer-1' })
+    expect(await host.next('client_joined')).toMatchObject({ clientId: 'viewer-1', displayName: 'Sam' })
+  })
+
+  it('refuses a viewer the host declines', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1' })
+    await host.next('join_request')
+    host.send({ type: 'join_response', sessionId, clientId: 'viewer-1', accepted: false })
+
+    expect(await viewer.nextError()).toBe('join_denied')
+    expect(viewer.has('session_joined')).toBe(false)
+  })
+
+  it('refuses a viewer the host does not answer in time', async () => {
+    await startServer({ joinApprovalTimeoutMs: 50 })
+    const { host, sessionId } = await hostSession()
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1' })
+    await host.next('join_request')
+
+    expect(await viewer.nextError()).toBe('join_timeout')
+    expect(await host.next('join_cancelled')).toMatchObject({ clientId: 'viewer-1' })
+  })
+
+  it('only lets the host answer join requests', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const viewer = await connect()
+    const intruder = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1' })
+    await host.next('join_request')
+    intruder.send({ type: 'join_response', sessionId, clientId: 'viewer-1', accepted: true })
+
+    expect(await intruder.nextError()).toBe('not_authorized')
+    expect(viewer.has('session_joined')).toBe(false)
+  })
+})
+
+describe('SignalingServer session resume', () => {
+  it('repeats pending join requests to a host that resumes', async () => {
+    await startServer()
+    const host = await connect()
+    host.send({ type: 'create_session' })
+    const { sessionId, resumeToken } = await host.next('session_created')
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', displayName: 'Sam' })
+    await host.next('join_request')
+    host.close()
+
+    const resumed = await connect()
+    resumed.send({ type: 'resume_session', sessionId, resumeToken })
+    await resumed.next('session_resumed')
+    expect(await resumed.next('join_request')).toMatchObject({ clientId: 'viewer-1', displayName: 'Sam' })
+
+    resumed.send({ type: 'join_response', sessionId, clientId: 'viewer-1', accepted: true })
+    await viewer.next('session_joined')
+  })
+
+  it('refuses a resume with the wrong token', async () => {
+    await startServer()
+    const { sessionId } = await hostSession()
+    const other = await connect()
+
+    other.send({ type: 'resume_session', sessionId, resumeToken: 'not-the-token' })
+    expect(await other.nextError()).toBe('resume_failed')
+  })
+})
+
+describe('SignalingServer idle sessions', () => {
+  // Heartbeats, and the expiry check that runs with them, every second.
+  // setTimeout stays real so socket I/O still completes.
+  const startWithHeartbeat = async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] })
+    return startServer({ heartbeatIntervalMs: 1000, sessionMaxAgeMs: 3000 })
+  }
+
+  it('expires the session of a connected host that sends nothing', async () => {
+    await startWithHeartbeat()
+    const { host } = await hostSession()
+
+    // The host answers every ping, so its socket is never dropped
+    for (let tick = 0; tick < 3; tick++) {
+      vi.advanceTimersByTime(1000)
+      await settle()
+    }
+    expect(host.has('session_error')).toBe(false)
+
+    vi.advanceTimersByTime(1000)
+    expect(await host.nextError()).toBe('session_closed')
+  })
+
+  it('keeps the session of a host that keeps sending', async () => {
+    await startWithHeartbeat()
+    const { host, sessionId } = await hostSession()
+    const candidate = { candidate: 'candidate:1 1 udp 1 127.0.0.1 9 typ host' }
+
+    for (let tick = 0; tick < 6; tick++) {
+      host.send({ type: 'ice_candidate', sessionId, clientId: 'viewer-1', candidate })
+      await settle()
+      vi.advanceTimersByTime(1000)
+      await settle()
+    }
+    expect(host.has('session_error')).toBe(false)
+  })
+})
+
+describe('SignalingServer invites', () => {
+  const createInvite = async (host: TestPeer, sessionId: string, singleUse: boolean, ttlSeconds?: number) => {
+    host.send({ type: 'create_invite', sessionId, singleUse, ttlSeconds })
+    return (await host.next('invite_created')).inviteToken
+  }
+
+  it('asks for an invite once the host has created one', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    await createInvite(host, sessionId, false)
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1' })
+    expect(await viewer.nextError()).toBe('invite_required')
+    expect(host.has('join_request')).toBe(false)
+  })
+
+  it('spends a single-use invite on the first join', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const inviteToken = await createInvite(host, sessionId, true)
+    const first = await connect()
+    const second = await connect()
+
+    first.send({ type: 'join_session', sessionId, clientId: 'viewer-1', inviteToken })
+    await first.next('join_pending')
+    second.send({ type: 'join_session', sessionId, clientId: 'viewer-2', inviteToken })
+    expect(await second.nextError()).toBe('invalid_invite')
+  })
+
+  it('lets a reusable invite admit several viewers', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const inviteToken = await createInvite(host, sessionId, false)
+    const first = await connect()
+    const second = await connect()
+
+    first.send({ type: 'join_session', sessionId, clientId: 'viewer-1', inviteToken })
+    await first.next('join_pending')
+    second.send({ type: 'join_session', sessionId, clientId: 'viewer-2', inviteToken })
+    await second.next('join_pending')
+  })
+
+  it('refuses an expired invite', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    const inviteToken = await createInvite(host, sessionId, false, 60)
+    const viewer = await connect()
+
+    vi.advanceTimersByTime(60 * 1000)
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', inviteToken })
+    expect(await viewer.nextError()).toBe('invalid_invite')
+    expect(host.has('join_request')).toBe(false)
+  })
+
+  it('refuses a token the host never issued', async () => {
+    await startServer()
+    const { host, sessionId } = await hostSession()
+    await createInvite(host, sessionId, false)
+    const viewer = await connect()
+
+    viewer.send({ type: 'join_session', sessionId, clientId: 'viewer-1', inviteToken: 'made-up' })
+    expect(await viewer.nextError()).toBe('invalid_invite')
+  })
+})
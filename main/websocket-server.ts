@@ -1,34 +1,253 @@
+import { randomBytes, randomInt, scryptSync, timingSafeEqual } from 'crypto'
+import http from 'http'
+import https from 'https'
 import { WebSocketServer, WebSocket } from 'ws'
-import { v4 as uuidv4 } from 'uuid'
+import { LogLevel, Logger, createLogger } from './signaling-logger'
+import { SignalingMetrics } from './signaling-metrics'
+import { AdminOptions, AdminSessionInfo, AdminTarget, createAdminServer } from './signaling-admin'
+import { DEFAULT_LIMITS, FailureLockout, RateLimiter, SignalingLimits } from './signaling-rate-limit'
+import {
+  PROTOCOL_VERSION,
+  ClientMessage,
+  ProtocolError,
+  ServerMessage,
+  SessionErrorCode,
+  parseClientMessage,
+} from './signaling-protocol'
+
+interface PendingJoin {
+  ws: WebSocket
+  displayName: string
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface SessionPeer {
+  ws: WebSocket
+  resumeToken: string
+  // Running while the peer's socket is gone and it may still resume
+  graceTimer: ReturnType<typeof setTimeout> | null
+}
+
+interface SessionClient extends SessionPeer {
+  displayName: string
+}
+
+interface SessionInvite {
+  singleUse: boolean
+  // Milliseconds since the epoch; null for invites that never expire
+  expiresAt: number | null
+}
 
 interface Session {
   id: string
-  host: WebSocket
-  clients: Map<string, WebSocket>
+  host: SessionPeer
+  clients: Map<string, SessionClient>
+  // Viewers waiting for the host to accept or deny them
+  pendingJoins: Map<string, PendingJoin>
   createdAt: Date
+  // Last message from the host, in ms since the epoch. Pongs do not count:
+  // they come from the host's network stack, not from someone using it.
+  lastHostActivity: number
+  // Only a salted scrypt hash of the host's password is kept
+  password: { salt: Buffer; hash: Buffer } | null
+  invites: Map<string, SessionInvite>
+  // Set by the first invite; from then on joining requires one
+  inviteOnly: boolean
+}
+
+interface ConnectionState {
+  // Set once the peer has completed the hello/welcome handshake
+  protocolVersion: number | null
+  // Cleared on every heartbeat and set again when the pong arrives
+  isAlive: boolean
+  // Remote address the rate limits and lockouts are keyed on
+  ip: string
 }
 
-class SignalingServer {
+export interface TlsOptions {
+  cert: string | Buffer
+  key: string | Buffer
+}
+
+export interface SignalingServerOptions {
+  // Interface to bind; all interfaces when omitted
+  host?: string
+  // Serve wss:// (and https:// for /healthz) instead of plain ws://
+  tls?: TlsOptions
+  logLevel?: LogLevel
+  // Separate HTTP listener for session management and metrics
+  admin?: AdminOptions
+  // How long a join request waits for the host before it is refused
+  joinApprovalTimeoutMs?: number
+  // How long a dropped host or client keeps its place in a session
+  reconnectGraceMs?: number
+  // How often sockets are pinged; one missed pong terminates the socket.
+  // 0 disables heartbeats and the session sweep.
+  heartbeatIntervalMs?: number
+  // Sessions whose host has been silent this long are closed
+  sessionMaxAgeMs?: number
+  // Overrides for individual rate limits and capacity caps
+  limits?: Partial<SignalingLimits>
+  sessionCodeLength?: number
+  // Viewers type codes in upper case, so keep the alphabet upper case too
+  sessionCodeAlphabet?: string
+}
+
+const DEFAULT_JOIN_APPROVAL_TIMEOUT_MS = 60 * 1000
+const DEFAULT_RECONNECT_GRACE_MS = 30 * 1000
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30 * 1000
+const DEFAULT_SESSION_MAX_AGE_MS = 60 * 60 * 1000
+// No 0/O or 1/I, which are easy to confuse when read aloud
+const DEFAULT_SESSION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const DEFAULT_SESSION_CODE_LENGTH = 8
+const MAX_INVITES_PER_SESSION = 50
+const DEFAULT_DISPLAY_NAME = 'Guest'
+const MAX_DISPLAY_NAME_LENGTH = 64
+
+const PASSWORD_KEY_LENGTH = 32
+
+const hashPassword = (password: string, salt: Buffer) =>
+  scryptSync(password, salt, PASSWORD_KEY_LENGTH)
+
+const verifyPassword = (password: string, stored: { salt: Buffer; hash: Buffer }) =>
+  timingSafeEqual(hashPassword(password, stored.salt), stored.hash)
+
+const createResumeToken = () => randomBytes(24).toString('base64url')
+
+const createInviteToken = () => randomBytes(18).toString('base64url')
+
+const tokensMatch = (a: string, b: string) => {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+class SignalingServer implements AdminTarget {
+  private server: http.Server | https.Server
+  private adminServer: http.Server | null = null
+  private metrics: SignalingMetrics = new SignalingMetrics()
   private wss: WebSocketServer
+  private logger: Logger
+  private startedAt: Date = new Date()
+  private shuttingDown: boolean = false
+  // Resolves once the port is bound; rejects if it cannot be
+  public readonly listening: Promise<void>
   private sessions: Map<string, Session> = new Map()
+  private connections: Map<WebSocket, ConnectionState> = new Map()
+  private joinApprovalTimeoutMs: number
+  private reconnectGraceMs: number
+  private sessionMaxAgeMs: number
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private limits: SignalingLimits
+  private joinsByConnection: RateLimiter<WebSocket>
+  private joinsByIp: RateLimiter<string>
+  private createsByConnection: RateLimiter<WebSocket>
+  private createsByIp: RateLimiter<string>
+  private failedJoins: FailureLockout<string>
+  private sessionCodeLength: number
+  private sessionCodeAlphabet: string
+
+  constructor(port: number = 8080, options: SignalingServerOptions = {}) {
+    this.joinApprovalTimeoutMs = options.joinApprovalTimeoutMs ?? DEFAULT_JOIN_APPROVAL_TIMEOUT_MS
+    this.reconnectGraceMs = options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS
+    this.sessionMaxAgeMs = options.sessionMaxAgeMs ?? DEFAULT_SESSION_MAX_AGE_MS
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits }
+    this.joinsByConnection = new RateLimiter(this.limits.joinsPerConnection, this.limits.rateWindowMs)
+    this.joinsByIp = new RateLimiter(this.limits.joinsPerIp, this.limits.rateWindowMs)
+    this.createsByConnection = new RateLimiter(this.limits.createsPerConnection, this.limits.rateWindowMs)
+    this.createsByIp = new RateLimiter(this.limits.createsPerIp, this.limits.rateWindowMs)
+    this.failedJoins = new FailureLockout(this.limits.maxFailedJoins, this.limits.lockoutMs)
+    this.sessionCodeLength = options.sessionCodeLength ?? DEFAULT_SESSION_CODE_LENGTH
+    this.sessionCodeAlphabet = options.sessionCodeAlphabet ?? DEFAULT_SESSION_CODE_ALPHABET
+    if (this.sessionCodeLength < 4 || new Set(this.sessionCodeAlphabet.split('')).size < 10) {
+      throw new Error('Session codes need at least 4 characters from an alphabet of at least 10 symbols')
+    }
+    this.logger = createLogger(options.logLevel)
 
-  constructor(port: number = 8080) {
-    this.wss = new WebSocketServer({ port })
+    const handleRequest = (req: http.IncomingMessage, res: http.ServerResponse) => this.handleHttpRequest(req, res)
+    this.server = options.tls
+      ? https.createServer({ cert: options.tls.cert, key: options.tls.key }, handleRequest)
+      : http.createServer(handleRequest)
+    this.wss = new WebSocketServer({ server: this.server })
     this.setupEventHandlers()
-    console.log(`WebSocket signaling server started on port ${port}`)
+
+    const scheme = options.tls ? 'wss' : 'ws'
+    this.listening = new Promise((resolve, reject) => {
+      this.server.once('error', (error) => {
+        this.logger.error(`Signaling server could not listen on port ${port}:`, error)
+        reject(error)
+      })
+      this.server.listen(port, options.host, () => {
+        this.logger.info(`WebSocket signaling server started on ${scheme}://${options.host || '0.0.0.0'}:${port}`)
+        resolve()
+      })
+    })
+    // Failures are already logged above; callers that care await listening
+    this.listening.catch(() => undefined)
+
+    if (options.admin) {
+      this.adminServer = createAdminServer(this, options.admin, this.logger)
+    }
+
+    const heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS
+    if (heartbeatIntervalMs > 0) {
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), heartbeatIntervalMs)
+    }
+  }
+
+  // The bound port, which differs from the one asked for when that was 0
+  public get port(): number {
+    const address = this.server.address()
+    return address && typeof address === 'object' ? address.port : 0
+  }
+
+  // The WebSocket endpoint shares its port with a health check for load
+  // balancers and process supervisors
+  private handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const pathname = (req.url || '/').split('?')[0]
+
+    if (pathname === '/healthz' && (req.method === 'GET' || req.method === 'HEAD')) {
+      const healthy = !this.shuttingDown
+      res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' })
+      res.end(req.method === 'HEAD' ? undefined : JSON.stringify({
+        status: healthy ? 'ok' : 'shutting_down',
+        sessions: this.sessions.size,
+        connections: this.connections.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt.getTime()) / 1000)
+      }))
+      return
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' })
+    res.end('Not found')
   }
 
   private setupEventHandlers() {
-    this.wss.on('connection', (ws: WebSocket) => {
-      console.log('New WebSocket connection established')
-      
+    this.wss.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
+      const ip = req.socket.remoteAddress || 'unknown'
+      this.logger.debug(`New WebSocket connection established from ${ip}`)
+      const connection: ConnectionState = { protocolVersion: null, isAlive: true, ip }
+      this.connections.set(ws, connection)
+
+      ws.on('pong', () => {
+        connection.isAlive = true
+      })
+
       ws.on('message', (data: Buffer) => {
+        connection.isAlive = true
+
+        let message: ClientMessage
         try {
-          const message = JSON.parse(data.toString())
-          this.handleMessage(ws, message)
+          message = parseClientMessage(data.toString())
         } catch (error) {
-          console.error('Error parsing message:', error)
+          if (error instanceof ProtocolError) {
+            this.logger.warn('Rejected malformed message:', error.message)
+            this.sendError(ws, error.code, error.message)
+            return
+          }
+          throw error
         }
+        this.handleMessage(ws, message)
       })
 
       ws.on('close', () => {
@@ -36,199 +255,632 @@ class SignalingServer {
       })
 
       ws.on('error', (error) => {
-        console.error('WebSocket error:', error)
+        this.logger.error('WebSocket error:', error)
         this.handleDisconnection(ws)
       })
     })
   }
 
-  private handleMessage(ws: WebSocket, message: any) {
-    const { type, sessionId, clientId, data } = message
+  // Half-open TCP connections never emit close, so ping every socket and
+  // drop the ones that did not answer the previous ping
+  private heartbeat() {
+    this.connections.forEach((connection, ws) => {
+      if (!connection.isAlive) {
+        this.logger.info('Terminating connection that missed a heartbeat')
+        ws.terminate()
+        this.handleDisconnection(ws)
+        return
+      }
+
+      connection.isAlive = false
+      ws.ping()
+    })
+
+    this.expireIdleSessions()
+    this.joinsByIp.prune()
+    this.createsByIp.prune()
+    this.failedJoins.prune()
+  }
+
+  private expireIdleSessions() {
+    const now = Date.now()
+
+    this.sessions.forEach((session) => {
+      if (now - session.lastHostActivity <= this.sessionMaxAgeMs) return
+
+      this.sendError(session.host.ws, 'session_closed', 'The session expired after a period of inactivity')
+      this.closeSession(session)
+      this.logger.info(`Session ${session.id} expired (no host activity for ${this.sessionMaxAgeMs}ms)`)
+    })
+  }
+
+  private send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message))
+    }
+  }
+
+  private sendError(ws: WebSocket, code: SessionErrorCode, error: string) {
+    this.send(ws, { type: 'session_error', code, error })
+  }
+
+  private rejectJoin(ws: WebSocket, code: SessionErrorCode, error: string) {
+    this.metrics.recordJoinFailure(code)
+    this.sendError(ws, code, error)
+  }
+
+  // Relay a message from one peer to another
+  private forward(ws: WebSocket, message: ServerMessage) {
+    this.metrics.recordForwarded(message.type)
+    this.send(ws, message)
+  }
+
+  private handleMessage(ws: WebSocket, message: ClientMessage) {
+    const connection = this.connections.get(ws)
+    if (!connection) return
+
+    if (message.type === 'hello') {
+      this.handleHello(ws, connection, message.protocolVersion)
+      return
+    }
+
+    // Builds that predate the handshake never send hello; refuse them
+    // outright instead of letting their sessions half-work
+    if (connection.protocolVersion === null) {
+      this.send(ws, {
+        type: 'session_error',
+        code: 'handshake_required',
+        error: `Unsupported client: expected hello with protocol version ${PROTOCOL_VERSION}`,
+        protocolVersion: PROTOCOL_VERSION
+      })
+      ws.close(1002, 'Handshake required')
+      return
+    }
 
-    switch (type) {
+    switch (message.type) {
       case 'create_session':
-        this.createSession(ws, sessionId)
+        if (!this.allow(ws, connection, this.createsByConnection, this.createsByIp)) {
+          this.sendError(ws, 'rate_limited', 'Too many sessions created. Please wait a minute and try again.')
+          return
+        }
+        this.createSession(ws, message.password)
         break
-      
+
       case 'join_session':
-        this.joinSession(ws, sessionId, clientId)
+        if (this.failedJoins.remaining(connection.ip) > 0) {
+          const minutes = Math.ceil(this.failedJoins.remaining(connection.ip) / 60000)
+          this.rejectJoin(ws, 'locked_out', `Too many failed attempts to join. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`)
+          return
+        }
+        if (!this.allow(ws, connection, this.joinsByConnection, this.joinsByIp)) {
+          this.rejectJoin(ws, 'rate_limited', 'Too many attempts to join. Please wait a minute and try again.')
+          return
+        }
+        this.joinSession(ws, connection, message)
         break
-      
+
+      case 'create_invite':
+        this.createInvite(ws, message.sessionId, message.singleUse, message.ttlSeconds)
+        break
+
+      case 'join_response':
+        this.handleJoinResponse(ws, message.sessionId, message.clientId, message.accepted)
+        break
+
       case 'offer':
-        this.forwardOffer(sessionId, clientId, data)
+        this.forwardOffer(ws, message)
         break
-      
+
       case 'answer':
-        this.forwardAnswer(sessionId, clientId, data)
+        this.forwardToHost(ws, message)
         break
-      
+
       case 'ice_candidate':
-        this.forwardIceCandidate(sessionId, clientId, data)
+      case 'chat_message':
+        this.forwardEitherWay(ws, message)
         break
-      
+
+      case 'ice_restart_request':
+        this.forwardToHost(ws, message)
+        break
+
       case 'leave_session':
-        this.leaveSession(sessionId, clientId)
+        this.leaveSession(ws, message.sessionId, message.clientId)
+        break
+
+      case 'end_session':
+        this.endSession(ws, message.sessionId)
+        break
+
+      case 'resume_session':
+        this.resumeSession(ws, message.sessionId, message.resumeToken, message.clientId)
         break
-      
-      default:
-        console.warn('Unknown message type:', type)
     }
+
+    // Checked after handling so a resuming host counts as active
+    this.sessions.forEach((session) => {
+      if (session.host.ws === ws) {
+        session.lastHostActivity = Date.now()
+      }
+    })
+  }
+
+  // Both the connection and its address must be under their limits
+  private allow(
+    ws: WebSocket,
+    connection: ConnectionState,
+    byConnection: RateLimiter<WebSocket>,
+    byIp: RateLimiter<string>
+  ) {
+    return byConnection.tryAcquire(ws) && byIp.tryAcquire(connection.ip)
   }
 
-  private createSession(ws: WebSocket, sessionId: string) {
-    if (this.sessions.has(sessionId)) {
-      ws.send(JSON.stringify({
+  // Unknown session codes and wrong passwords count towards a lockout of the
+  // sender's address, so codes cannot be guessed at line rate
+  private recordFailedJoin(connection: ConnectionState) {
+    if (this.failedJoins.recordFailure(connection.ip)) {
+      this.logger.warn(`Locked out ${connection.ip} for ${this.limits.lockoutMs}ms after repeated failed joins`)
+    }
+  }
+
+  private handleHello(ws: WebSocket, connection: ConnectionState, protocolVersion: number) {
+    if (protocolVersion !== PROTOCOL_VERSION) {
+      this.send(ws, {
         type: 'session_error',
-        error: 'Session already exists'
-      }))
+        code: 'protocol_mismatch',
+        error: `Protocol version ${protocolVersion} is not supported (server speaks ${PROTOCOL_VERSION})`,
+        protocolVersion: PROTOCOL_VERSION
+      })
+      ws.close(1002, 'Protocol version mismatch')
+      return
+    }
+
+    connection.protocolVersion = protocolVersion
+    this.send(ws, { type: 'welcome', protocolVersion: PROTOCOL_VERSION })
+  }
+
+  // Codes come from a CSPRNG so they cannot be predicted from earlier ones
+  private allocateSessionCode(): string {
+    let code: string
+    do {
+      code = ''
+      for (let i = 0; i < this.sessionCodeLength; i++) {
+        code += this.sessionCodeAlphabet.charAt(randomInt(this.sessionCodeAlphabet.length))
+      }
+    } while (this.sessions.has(code))
+    return code
+  }
+
+  private createSession(ws: WebSocket, password?: string) {
+    if (this.sessions.size >= this.limits.maxSessions) {
+      this.sendError(ws, 'server_full', 'The server is hosting as many sessions as it can. Please try again later.')
+      this.logger.warn(`Refused new session: limit of ${this.limits.maxSessions} reached`)
       return
     }
 
+    const sessionId = this.allocateSessionCode()
     const session: Session = {
       id: sessionId,
-      host: ws,
+      host: { ws, resumeToken: createResumeToken(), graceTimer: null },
       clients: new Map(),
-      createdAt: new Date()
+      pendingJoins: new Map(),
+      createdAt: new Date(),
+      lastHostActivity: Date.now(),
+      password: null,
+      invites: new Map(),
+      inviteOnly: false
+    }
+
+    if (password) {
+      const salt = randomBytes(16)
+      session.password = { salt, hash: hashPassword(password, salt) }
     }
 
     this.sessions.set(sessionId, session)
-    
-    ws.send(JSON.stringify({
+    this.metrics.recordSessionCreated()
+
+    this.send(ws, {
       type: 'session_created',
-      sessionId
-    }))
+      sessionId,
+      resumeToken: session.host.resumeToken
+    })
+
+    this.logger.info(`Session created: ${sessionId}${session.password ? ' (password protected)' : ''}`)
+  }
+
+  private createInvite(ws: WebSocket, sessionId: string, singleUse: boolean, ttlSeconds?: number) {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    if (session.host.ws !== ws) {
+      this.sendError(ws, 'not_authorized', 'Only the session host can create invites')
+      return
+    }
+
+    this.pruneInvites(session)
+    if (session.invites.size >= MAX_INVITES_PER_SESSION) {
+      this.sendError(ws, 'rate_limited', 'This session has too many open invites')
+      return
+    }
+
+    const inviteToken = createInviteToken()
+    const expiresAt = ttlSeconds && ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null
+    session.invites.set(inviteToken, { singleUse, expiresAt })
+    session.inviteOnly = true
+
+    this.send(ws, {
+      type: 'invite_created',
+      sessionId,
+      inviteToken,
+      singleUse,
+      expiresAt: expiresAt ?? undefined
+    })
+
+    this.logger.info(`Invite created for session ${sessionId}${singleUse ? ' (single use)' : ''}`)
+  }
+
+  private pruneInvites(session: Session) {
+    const now = Date.now()
+    session.invites.forEach((invite, token) => {
+      if (invite.expiresAt !== null && invite.expiresAt <= now) {
+        session.invites.delete(token)
+      }
+    })
+  }
+
+  private findInvite(session: Session, inviteToken: string): string | null {
+    this.pruneInvites(session)
 
-    console.log(`Session created: ${sessionId}`)
+    let found: string | null = null
+    session.invites.forEach((_invite, token) => {
+      if (tokensMatch(token, inviteToken)) found = token
+    })
+    return found
   }
 
-  private joinSession(ws: WebSocket, sessionId: string, clientId: string) {
+  private joinSession(
+    ws: WebSocket,
+    connection: ConnectionState,
+    message: Extract<ClientMessage, { type: 'join_session' }>
+  ) {
+    const { sessionId, clientId, password, displayName, inviteToken } = message
     const session = this.sessions.get(sessionId)
-    
+
     if (!session) {
-      ws.send(JSON.stringify({
-        type: 'session_error',
-        error: 'Session not found'
-      }))
+      this.recordFailedJoin(connection)
+      this.rejectJoin(ws, 'session_not_found', 'Session not found')
+      return
+    }
+
+    let invite: string | null = null
+    if (session.inviteOnly) {
+      if (!inviteToken) {
+        this.rejectJoin(ws, 'invite_required', 'This session only accepts invite links')
+        return
+      }
+      invite = this.findInvite(session, inviteToken)
+      if (!invite) {
+        this.recordFailedJoin(connection)
+        this.rejectJoin(ws, 'invalid_invite', 'This invite link is invalid, expired or already used')
+        return
+      }
+    }
+
+    if (session.password) {
+      if (!password) {
+        this.rejectJoin(ws, 'password_required', 'This session requires a password')
+        return
+      }
+      if (!verifyPassword(password, session.password)) {
+        this.recordFailedJoin(connection)
+        this.rejectJoin(ws, 'invalid_password', 'Incorrect session password')
+        return
+      }
+    }
+
+    if (session.clients.has(clientId) || session.pendingJoins.has(clientId)) {
+      this.rejectJoin(ws, 'not_authorized', 'Client ID is already in use')
       return
     }
 
-    session.clients.set(clientId, ws)
-    
+    if (session.clients.size + session.pendingJoins.size >= this.limits.maxClientsPerSession) {
+      this.rejectJoin(ws, 'session_full', 'This session already has as many viewers as it allows')
+      return
+    }
+
+    // Single-use invites are spent on the request, whatever the host decides
+    if (invite && session.invites.get(invite)?.singleUse) {
+      session.invites.delete(invite)
+    }
+
+    const name = (displayName || '').trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || DEFAULT_DISPLAY_NAME
+
+    // Nobody is admitted until the host accepts; silence counts as a denial
+    const timer = setTimeout(() => {
+      if (session.pendingJoins.get(clientId)?.ws !== ws) return
+
+      session.pendingJoins.delete(clientId)
+      this.send(session.host.ws, { type: 'join_cancelled', sessionId, clientId })
+      this.rejectJoin(ws, 'join_timeout', 'The host did not respond to your request to join')
+      this.logger.info(`Join request from ${clientId} to session ${sessionId} timed out`)
+    }, this.joinApprovalTimeoutMs)
+
+    session.pendingJoins.set(clientId, { ws, displayName: name, timer })
+
+    this.send(session.host.ws, {
+      type: 'join_request',
+      sessionId,
+      clientId,
+      displayName: name
+    })
+
+    this.send(ws, {
+      type: 'join_pending',
+      sessionId,
+      clientId
+    })
+
+    this.logger.info(`Client ${clientId} (${name}) is waiting to join session ${sessionId}`)
+  }
+
+  private handleJoinResponse(ws: WebSocket, sessionId: string, clientId: string, accepted: boolean) {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    if (session.host.ws !== ws) {
+      this.sendError(ws, 'not_authorized', 'Only the session host can answer join requests')
+      return
+    }
+
+    const pending = session.pendingJoins.get(clientId)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    session.pendingJoins.delete(clientId)
+
+    if (!accepted) {
+      this.rejectJoin(pending.ws, 'join_denied', 'The host declined your request to join')
+      this.logger.info(`Host denied ${clientId} in session ${sessionId}`)
+      return
+    }
+
+    const client: SessionClient = {
+      ws: pending.ws,
+      displayName: pending.displayName,
+      resumeToken: createResumeToken(),
+      graceTimer: null
+    }
+    session.clients.set(clientId, client)
+    this.metrics.recordJoin()
+
     // Notify host about new client
-    session.host.send(JSON.stringify({
+    this.send(session.host.ws, {
       type: 'client_joined',
       clientId,
-      sessionId
-    }))
+      sessionId,
+      displayName: pending.displayName
+    })
 
     // Notify client about successful join
-    ws.send(JSON.stringify({
+    this.send(pending.ws, {
       type: 'session_joined',
       sessionId,
-      clientId
-    }))
+      clientId,
+      resumeToken: client.resumeToken
+    })
 
-    console.log(`Client ${clientId} joined session ${sessionId}`)
+    this.logger.info(`Client ${clientId} joined session ${sessionId}`)
   }
 
-  private forwardOffer(sessionId: string, clientId: string, offer: any) {
-    const session = this.sessions.get(sessionId)
+  // Offers only flow from the host to one of its viewers
+  private forwardOffer(ws: WebSocket, message: Extract<ClientMessage, { type: 'offer' }>) {
+    const session = this.sessions.get(message.sessionId)
     if (!session) return
 
-    const targetWs = session.clients.get(clientId)
-    if (targetWs) {
-      targetWs.send(JSON.stringify({
-        type: 'offer',
-        sessionId,
-        offer
-      }))
+    if (session.host.ws !== ws) {
+      this.sendError(ws, 'not_authorized', 'Only the session host can send offers')
+      return
+    }
+
+    const client = session.clients.get(message.clientId)
+    if (client) {
+      this.forward(client.ws, message)
     }
   }
 
-  private forwardAnswer(sessionId: string, clientId: string, answer: any) {
-    const session = this.sessions.get(sessionId)
+  // Answers and restart requests only flow from a viewer, under its own
+  // clientId, to the host
+  private forwardToHost(ws: WebSocket, message: Extract<ClientMessage, { type: 'answer' | 'ice_restart_request' }>) {
+    const session = this.sessions.get(message.sessionId)
     if (!session) return
 
-    session.host.send(JSON.stringify({
-      type: 'answer',
-      sessionId,
-      clientId,
-      answer
-    }))
+    if (session.clients.get(message.clientId)?.ws !== ws) {
+      this.sendError(ws, 'not_authorized', 'Message does not match the sending client')
+      return
+    }
+
+    this.forward(session.host.ws, message)
   }
 
-  private forwardIceCandidate(sessionId: string, clientId: string, candidate: any) {
-    const session = this.sessions.get(sessionId)
+  private forwardEitherWay(ws: WebSocket, message: Extract<ClientMessage, { type: 'ice_candidate' | 'chat_message' }>) {
+    const session = this.sessions.get(message.sessionId)
     if (!session) return
 
-    const targetWs = session.clients.get(clientId)
-    if (targetWs) {
-      targetWs.send(JSON.stringify({
-        type: 'ice_candidate',
-        sessionId,
-        candidate
-      }))
-    } else {
-      // Forward to host if client not found
-      session.host.send(JSON.stringify({
-        type: 'ice_candidate',
-        sessionId,
-        clientId,
-        candidate
-      }))
+    // Messages from the host are addressed to one viewer; messages from a
+    // viewer always go to the host, tagged with the viewer's clientId
+    if (session.host.ws === ws) {
+      const client = session.clients.get(message.clientId)
+      if (client) {
+        this.forward(client.ws, message)
+      }
+    } else if (session.clients.get(message.clientId)?.ws === ws) {
+      this.forward(session.host.ws, message)
     }
   }
 
-  private leaveSession(sessionId: string, clientId: string) {
+  // Withdraw a join request whose client gave up waiting
+  private cancelPendingJoin(session: Session, clientId: string) {
+    const pending = session.pendingJoins.get(clientId)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    session.pendingJoins.delete(clientId)
+    this.send(session.host.ws, { type: 'join_cancelled', sessionId: session.id, clientId })
+    this.logger.info(`Client ${clientId} withdrew its request to join session ${session.id}`)
+  }
+
+  private leaveSession(ws: WebSocket, sessionId: string, clientId: string) {
     const session = this.sessions.get(sessionId)
     if (!session) return
 
+    if (session.pendingJoins.get(clientId)?.ws === ws) {
+      this.cancelPendingJoin(session, clientId)
+      return
+    }
+
+    const client = session.clients.get(clientId)
+    if (!client || client.ws !== ws) return
+
+    this.removeClient(session, clientId, 'client_left')
+    this.logger.info(`Client ${clientId} left session ${sessionId}`)
+  }
+
+  private endSession(ws: WebSocket, sessionId: string) {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.host.ws !== ws) return
+
+    this.closeSession(session)
+    this.logger.info(`Session ${sessionId} ended by host`)
+  }
+
+  private removeClient(session: Session, clientId: string, reason: 'client_left' | 'client_disconnected') {
+    const client = session.clients.get(clientId)
+    if (!client) return
+
+    if (client.graceTimer) clearTimeout(client.graceTimer)
     session.clients.delete(clientId)
-    
-    // Notify host about client leaving
-    session.host.send(JSON.stringify({
-      type: 'client_left',
+
+    // Notify host about the client going away
+    this.send(session.host.ws, {
+      type: reason,
       clientId,
-      sessionId
-    }))
+      sessionId: session.id
+    })
+  }
+
+  private closeSession(session: Session) {
+    if (session.host.graceTimer) clearTimeout(session.host.graceTimer)
+
+    // Notify all clients that host disconnected
+    session.clients.forEach((client) => {
+      if (client.graceTimer) clearTimeout(client.graceTimer)
+      this.send(client.ws, {
+        type: 'host_disconnected',
+        sessionId: session.id
+      })
+    })
+
+    session.pendingJoins.forEach((pending) => {
+      clearTimeout(pending.timer)
+      this.sendError(pending.ws, 'session_closed', 'The host ended the session')
+    })
 
-    console.log(`Client ${clientId} left session ${sessionId}`)
+    this.sessions.delete(session.id)
+  }
+
+  private resumeSession(ws: WebSocket, sessionId: string, resumeToken: string, clientId?: string) {
+    const session = this.sessions.get(sessionId)
+    const peer = !session ? undefined : clientId ? session.clients.get(clientId) : session.host
+
+    if (!session || !peer || !tokensMatch(peer.resumeToken, resumeToken)) {
+      this.sendError(ws, 'resume_failed', 'The session can no longer be resumed')
+      return
+    }
+
+    if (peer.graceTimer) {
+      clearTimeout(peer.graceTimer)
+      peer.graceTimer = null
+    }
+
+    // A resume can race the server noticing the old socket is gone
+    const previousWs = peer.ws
+    peer.ws = ws
+    if (previousWs !== ws) {
+      this.connections.delete(previousWs)
+      previousWs.terminate()
+    }
+
+    this.send(ws, { type: 'session_resumed', sessionId, clientId })
+
+    if (!clientId) {
+      session.clients.forEach((client) => {
+        this.send(client.ws, { type: 'host_resumed', sessionId })
+      })
+
+      // Join requests sent while the host was away were lost with its socket
+      session.pendingJoins.forEach((pending, pendingClientId) => {
+        this.send(ws, {
+          type: 'join_request',
+          sessionId,
+          clientId: pendingClientId,
+          displayName: pending.displayName
+        })
+      })
+    }
+
+    this.logger.info(`${clientId ? `Client ${clientId}` : 'Host'} resumed session ${sessionId}`)
   }
 
   private handleDisconnection(ws: WebSocket) {
-    // Find and remove the disconnected client from all sessions
-    for (const [sessionId, session] of this.sessions.entries()) {
+    if (!this.connections.delete(ws)) return
+    this.joinsByConnection.delete(ws)
+    this.createsByConnection.delete(ws)
+
+    // Find the disconnected peer in all sessions. Hosts and admitted clients
+    // keep their place for reconnectGraceMs so a brief drop is survivable.
+    this.sessions.forEach((session, sessionId) => {
       // Check if it's the host
-      if (session.host === ws) {
-        // Notify all clients that host disconnected
-        session.clients.forEach((clientWs) => {
-          clientWs.send(JSON.stringify({
-            type: 'host_disconnected',
-            sessionId
-          }))
+      if (session.host.ws === ws) {
+        session.clients.forEach((client) => {
+          this.send(client.ws, { type: 'host_reconnecting', sessionId })
         })
-        
-        this.sessions.delete(sessionId)
-        console.log(`Session ${sessionId} deleted (host disconnected)`)
-        break
+
+        session.host.graceTimer = setTimeout(() => {
+          this.closeSession(session)
+          this.logger.info(`Session ${sessionId} deleted (host did not reconnect)`)
+        }, this.reconnectGraceMs)
+
+        this.logger.info(`Host of session ${sessionId} disconnected, holding session for ${this.reconnectGraceMs}ms`)
+        return
       }
-      
-      // Check if it's a client
-      for (const [clientId, clientWs] of session.clients.entries()) {
-        if (clientWs === ws) {
-          session.clients.delete(clientId)
-          
-          // Notify host about client disconnection
-          session.host.send(JSON.stringify({
-            type: 'client_disconnected',
-            clientId,
-            sessionId
-          }))
-          
-          console.log(`Client ${clientId} disconnected from session ${sessionId}`)
-          break
+
+      session.pendingJoins.forEach((pending, clientId) => {
+        if (pending.ws === ws) {
+          this.cancelPendingJoin(session, clientId)
         }
-      }
+      })
+
+      // Check if it's a client
+      session.clients.forEach((client, clientId) => {
+        if (client.ws !== ws) return
+
+        client.graceTimer = setTimeout(() => {
+          this.removeClient(session, clientId, 'client_disconnected')
+          this.logger.info(`Client ${clientId} disconnected from session ${sessionId}`)
+        }, this.reconnectGraceMs)
+      })
+    })
+  }
+
+  private describeSession(session: Session): AdminSessionInfo {
+    return {
+      id: session.id,
+      clientCount: session.clients.size,
+      pendingCount: session.pendingJoins.size,
+      createdAt: session.createdAt,
+      ageSeconds: Math.round((Date.now() - session.createdAt.getTime()) / 1000),
+      passwordProtected: !!session.password,
+      inviteOnly: session.inviteOnly
     }
   }
 
@@ -236,16 +888,83 @@ class SignalingServer {
     const session = this.sessions.get(sessionId)
     if (!session) return null
 
-    return {
-      id: session.id,
-      clientCount: session.clients.size,
-      createdAt: session.createdAt
+    return this.describeSession(session)
+  }
+
+  public listSessions(): AdminSessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => this.describeSession(session))
+  }
+
+  public forceCloseSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId)
+    if (!session) return false
+
+    this.sendError(session.host.ws, 'session_closed', 'The session was closed by an administrator')
+    this.closeSession(session)
+    return true
+  }
+
+  public renderMetrics(): string {
+    let activeClients = 0
+    this.sessions.forEach((session) => {
+      activeClients += session.clients.size
+    })
+
+    return this.metrics.render({
+      activeSessions: this.sessions.size,
+      activeClients,
+      connections: this.connections.size
+    })
+  }
+
+  private clearSessionTimers() {
+    this.sessions.forEach((session) => {
+      if (session.host.graceTimer) clearTimeout(session.host.graceTimer)
+      session.clients.forEach((client) => {
+        if (client.graceTimer) clearTimeout(client.graceTimer)
+      })
+      session.pendingJoins.forEach((pending) => clearTimeout(pending.timer))
+    })
+  }
+
+  // Tell every host and client why they are being dropped, then close the
+  // sockets and stop listening
+  public async shutdown(reason: string = 'The signaling server is shutting down'): Promise<void> {
+    if (this.shuttingDown) return
+    this.shuttingDown = true
+    this.logger.info(`Shutting down signaling server: ${reason}`)
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    this.clearSessionTimers()
+    this.sessions.clear()
+
+    this.connections.forEach((_connection, ws) => {
+      this.send(ws, { type: 'server_shutdown', reason })
+      ws.close(1001, 'Server shutting down')
+    })
+
+    if (this.adminServer) {
+      this.adminServer.close()
+      this.adminServer = null
     }
+
+    await new Promise<void>((resolve) => {
+      this.wss.close(() => {
+        this.connections.forEach((_connection, ws) => ws.terminate())
+        this.connections.clear()
+        this.server.close(() => resolve())
+      })
+    })
   }
 
   public close() {
-    this.wss.close()
+    this.shutdown().catch((error) => {
+      this.logger.error('Error closing signaling server:', error)
+    })
   }
 }
 
-export default SignalingServer 
\ No newline at end of file
+export default SignalingServer
@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react'
+import { AnnotationBoard, contentRect, drawAnnotations, hasLasers } from '../utils/annotation'
+
+type AnnotationCanvasProps = Omit<React.CanvasHTMLAttributes<HTMLCanvasElement>, 'width' | 'height'> & {
+  board: AnnotationBoard
+  displayId: string | null
+  // Bumped by the owner whenever the board changes
+  version: number
+  // The video under the canvas, whose letterboxing the strokes follow. The
+  // canvas is taken to cover the shared screen exactly without one.
+  videoRef?: React.RefObject<HTMLVideoElement>
+}
+
+// Draws a board's strokes for one display, and keeps redrawing while a
+// laser pointer fades
+export default function AnnotationCanvas({ board, displayId, version, videoRef, ...props }: AnnotationCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const frameRef = useRef(0)
+
+  const render = () => {
+    cancelAnimationFrame(frameRef.current)
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    const ratio = window.devicePixelRatio || 1
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio)
+      canvas.height = Math.round(height * ratio)
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, width, height)
+
+    const video = videoRef?.current
+    const area = contentRect(width, height, video ? video.videoWidth : 0, video ? video.videoHeight : 0)
+    const now = Date.now()
+    const strokes = board.getStrokes(displayId, now)
+    drawAnnotations(context, strokes, area, now)
+
+    if (hasLasers(strokes)) {
+      frameRef.current = requestAnimationFrame(render)
+    }
+  }
+  const renderRef = useRef(render)
+  renderRef.current = render
+
+  useEffect(() => {
+    render()
+  }, [board, displayId, version])
+
+  // Redraw when the canvas is resized or the video's resolution changes.
+  // Another display may be showing in a different video element.
+  useEffect(() => {
+    const redraw = () => renderRef.current()
+    const observer = new ResizeObserver(redraw)
+    if (canvasRef.current) observer.observe(canvasRef.current)
+    const video = videoRef?.current
+    video?.addEventListener('resize', redraw)
+    return () => {
+      observer.disconnect()
+      video?.removeEventListener('resize', redraw)
+      cancelAnimationFrame(frameRef.current)
+    }
+  }, [videoRef, displayId])
+
+  return <canvas ref={canvasRef} {...props} />
+}
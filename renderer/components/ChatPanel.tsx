@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react'
+import type { ChatMessage } from '../utils/webrtc'
+import { formatChatTime } from '../utils/chat'
+
+interface ChatPanelProps {
+  messages: ChatMessage[]
+  maxLength: number
+  onSend: (text: string) => void
+  onSaveTranscript: () => void
+}
+
+// Collapsible chat. Messages from the other side that arrive while it is
+// collapsed are counted on the header.
+export default function ChatPanel({ messages, maxLength, onSend, onSaveTranscript }: ChatPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [readCount, setReadCount] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const received = messages.filter((message) => !message.fromSelf).length
+  const unread = isOpen ? 0 : Math.max(0, received - readCount)
+
+  useEffect(() => {
+    if (isOpen) {
+      setReadCount(received)
+    }
+  }, [isOpen, received])
+
+  // A new transcript starts from zero
+  useEffect(() => {
+    if (messages.length === 0) {
+      setReadCount(0)
+    }
+  }, [messages.length])
+
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+  }, [isOpen, messages.length])
+
+  const send = () => {
+    const text = draft.trim()
+    if (!text) return
+    onSend(text)
+    setDraft('')
+  }
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between p-3">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center space-x-2 font-semibold text-gray-800"
+        >
+          <span>Chat</span>
+          {unread > 0 && (
+            <span className="bg-red-600 text-white text-xs font-bold rounded-full px-2 py-0.5">{unread}</span>
+          )}
+          <svg className={`w-4 h-4 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {isOpen && messages.length > 0 && (
+          <button
+            onClick={onSaveTranscript}
+            className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+          >
+            Save Transcript
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 p-3">
+          <div ref={listRef} className="h-48 overflow-y-auto space-y-2 mb-3">
+            {messages.length === 0 ? (
+              <p className="text-sm text-gray-500">No messages yet</p>
+            ) : messages.map((message) => (
+              <div key={message.id} className={`flex ${message.fromSelf ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-xs rounded-lg px-3 py-2 ${message.fromSelf ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                  <p className={`text-xs mb-1 ${message.fromSelf ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {message.fromSelf ? 'You' : message.senderName} · {formatChatTime(message.sentAt)}
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') send()
+              }}
+              placeholder="Type a message"
+              maxLength={maxLength}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+            />
+            <button
+              onClick={send}
+              disabled={!draft.trim()}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import React from 'react'
+import { FileTransfer, formatFileSize } from '../utils/file-transfer'
+
+interface FileTransferListProps {
+  transfers: FileTransfer[]
+  // Who is on the other end of a transfer, for the host's list
+  peerName?: (peerId: string) => string
+  onAccept: (id: string) => void
+  onDecline: (id: string) => void
+  onCancel: (id: string) => void
+  onDismiss: (id: string) => void
+}
+
+const STATUS_LABELS: Record<FileTransfer['status'], string> = {
+  offered: 'Waiting for you to accept',
+  waiting: 'Waiting for the other side to accept',
+  transferring: 'Transferring',
+  paused: 'Connection lost, will resume',
+  done: 'Done',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+}
+
+const FINISHED = ['done', 'declined', 'cancelled', 'failed']
+
+export default function FileTransferList({ transfers, peerName, onAccept, onDecline, onCancel, onDismiss }: FileTransferListProps) {
+  if (transfers.length === 0) return null
+
+  return (
+    <ul className="space-y-3">
+      {transfers.map((transfer) => {
+        const percent = transfer.size > 0 ? Math.min(100, Math.round(transfer.transferred / transfer.size * 100)) : 100
+        const finished = FINISHED.indexOf(transfer.status) !== -1
+        return (
+          <li key={transfer.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between space-x-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800 truncate" title={transfer.name}>
+                  {transfer.direction === 'incoming' ? 'Receiving' : 'Sending'} {transfer.name}
+                  {peerName && ` ${transfer.direction === 'incoming' ? 'from' : 'to'} ${peerName(transfer.peerId)}`}
+                </p>
+                <p className={`text-xs ${transfer.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+                  {formatFileSize(transfer.size)} · {transfer.error || STATUS_LABELS[transfer.status]}
+                  {transfer.status === 'done' && transfer.savedPath && ` · Saved to ${transfer.savedPath}`}
+                </p>
+              </div>
+              <div className="flex space-x-2 flex-shrink-0">
+                {transfer.status === 'offered' ? (
+                  <React.Fragment>
+                    <button
+                      onClick={() => onAccept(transfer.id)}
+                      className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium py-1 px-3 rounded-lg transition-colors duration-200"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => onDecline(transfer.id)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-medium py-1 px-3 rounded-lg transition-colors duration-200"
+                    >
+                      Decline
+                    </button>
+                  </React.Fragment>
+                ) : finished ? (
+                  <button
+                    onClick={() => onDismiss(transfer.id)}
+                    className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                  >
+                    Clear
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onCancel(transfer.id)}
+                    className="text-red-600 hover:text-red-800 text-sm font-medium"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            {(transfer.status === 'transferring' || transfer.status === 'paused') && (
+              <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${transfer.status === 'paused' ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
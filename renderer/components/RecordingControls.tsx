@@ -0,0 +1,61 @@
+import React from 'react'
+import { RecordingStatus, formatDuration } from '../utils/recording'
+import { formatFileSize } from '../utils/file-transfer'
+
+interface RecordingControlsProps {
+  status: RecordingStatus | null
+  disabled?: boolean
+  onStart: () => void
+  onStop: () => void
+  onDismiss: () => void
+}
+
+export default function RecordingControls({ status, disabled, onStart, onStop, onDismiss }: RecordingControlsProps) {
+  const active = status !== null && (status.state === 'recording' || status.state === 'saving')
+
+  return (
+    <div>
+      <div className="flex items-center space-x-3">
+        {active ? (
+          <button
+            onClick={onStop}
+            disabled={status.state === 'saving'}
+            className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            {status.state === 'saving' ? 'Saving...' : 'Stop Recording'}
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={disabled}
+            className="bg-red-600 hover:bg-red-700 disabled:bg-gray-300 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Record
+          </button>
+        )}
+        {active && (
+          <span className="flex items-center space-x-2 text-sm text-gray-700">
+            <span className="w-3 h-3 bg-red-600 rounded-full animate-pulse"></span>
+            <span className="font-mono">{formatDuration(status.elapsed)}</span>
+            <span>· {formatFileSize(status.bytes)}</span>
+          </span>
+        )}
+      </div>
+      {status && (status.state === 'saved' || status.state === 'failed') && (
+        <div className="mt-2 flex items-center justify-between space-x-3">
+          <p className={`text-sm break-all ${status.state === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+            {status.state === 'failed'
+              ? status.error
+              : `Saved ${formatDuration(status.elapsed)} (${formatFileSize(status.bytes)}) to ${status.path}`}
+          </p>
+          <button
+            onClick={onDismiss}
+            className="text-gray-600 hover:text-gray-800 text-sm font-medium flex-shrink-0"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
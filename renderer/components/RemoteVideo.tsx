@@ -0,0 +1,31 @@
+import React, { forwardRef, useEffect, useRef } from 'react'
+
+type RemoteVideoProps = Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> & {
+  stream: MediaStream
+}
+
+// A <video> that plays a MediaStream, for pages that render a list of them
+const RemoteVideo = forwardRef<HTMLVideoElement, RemoteVideoProps>(({ stream, ...props }, ref) => {
+  const innerRef = useRef<HTMLVideoElement | null>(null)
+
+  useEffect(() => {
+    if (innerRef.current && innerRef.current.srcObject !== stream) {
+      innerRef.current.srcObject = stream
+    }
+  }, [stream])
+
+  const setRef = (element: HTMLVideoElement | null) => {
+    innerRef.current = element
+    if (typeof ref === 'function') {
+      ref(element)
+    } else if (ref) {
+      ref.current = element
+    }
+  }
+
+  return <video ref={setRef} autoPlay {...props} />
+})
+
+RemoteVideo.displayName = 'RemoteVideo'
+
+export default RemoteVideo
@@ -0,0 +1,44 @@
+import React from 'react'
+import type { Snapshot } from '../utils/snapshot'
+import { formatChatTime } from '../utils/chat'
+
+interface SnapshotGalleryProps {
+  snapshots: Snapshot[]
+  onOpen: (snapshot: Snapshot) => void
+  onClear: () => void
+}
+
+// Thumbnails of this session's snapshots, newest first. The files stay on
+// disk when the gallery is cleared.
+export default function SnapshotGallery({ snapshots, onOpen, onClear }: SnapshotGalleryProps) {
+  if (snapshots.length === 0) return null
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Snapshots</h3>
+        <button
+          onClick={onClear}
+          className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+        >
+          Clear
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {snapshots.map((snapshot) => (
+          <button
+            key={snapshot.id}
+            onClick={() => onOpen(snapshot)}
+            title={`Open ${snapshot.path}`}
+            className="text-left bg-gray-50 border border-gray-200 hover:border-green-500 rounded-lg overflow-hidden transition-colors duration-200"
+          >
+            <img src={snapshot.thumbnailUrl} alt={`Snapshot at ${formatChatTime(snapshot.takenAt)}`} className="w-full" />
+            <p className="text-xs text-gray-600 px-2 py-1">
+              {formatChatTime(snapshot.takenAt)} · {snapshot.width}×{snapshot.height}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react'
+import type { CaptureSource } from '../../main/helpers/capture-sources'
+import type { RememberedSource } from '../../main/helpers/settings'
+
+interface SourcePickerProps {
+  // Preselected when still available
+  remembered: RememberedSource[]
+  confirmLabel: string
+  // Any number of screens, or a single window
+  onSelect: (sources: CaptureSource[]) => void
+  onCancel: () => void
+}
+
+// Prefer the exact source, then a window with the same title
+const findRemembered = (sources: CaptureSource[], remembered: RememberedSource[]) =>
+  remembered
+    .map((entry) => sources.find((source) => source.id === entry.id)
+      || sources.find((source) => source.type === 'window' && source.name === entry.name))
+    .filter((source): source is CaptureSource => !!source)
+
+export default function SourcePicker({ remembered, confirmLabel, onSelect, onCancel }: SourcePickerProps) {
+  const [sources, setSources] = useState<CaptureSource[] | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [errorMessage, setErrorMessage] = useState('')
+
+  const loadSources = async () => {
+    try {
+      setErrorMessage('')
+      const loaded = await window.electronAPI.getDisplayMedia()
+      setSources(loaded)
+      setSelectedIds((current) => {
+        const stillAvailable = current.filter((id) => loaded.some((source) => source.id === id))
+        if (stillAvailable.length > 0) return stillAvailable
+        const preferred = findRemembered(loaded, remembered)
+        if (preferred.length > 0) return preferred.map((source) => source.id)
+        return loaded.length > 0 ? [loaded[0].id] : []
+      })
+    } catch (error) {
+      console.error('Error listing capture sources:', error)
+      setErrorMessage('Could not list screens and windows. Check the screen recording permission.')
+    }
+  }
+
+  useEffect(() => {
+    loadSources()
+  }, [])
+
+  const selected = (sources || []).filter((source) => selectedIds.indexOf(source.id) !== -1)
+
+  // Screens toggle so several can be shared together; a window is always
+  // shared on its own
+  const toggle = (source: CaptureSource) => {
+    setSelectedIds((current) => {
+      if (source.type === 'window') return [source.id]
+
+      const screens = current.filter((id) => id.startsWith('screen:'))
+      if (screens.indexOf(source.id) === -1) return [...screens, source.id]
+      return screens.length > 1 ? screens.filter((id) => id !== source.id) : screens
+    })
+  }
+
+  const renderGroup = (title: string, group: CaptureSource[]) => group.length > 0 && (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-gray-700 mb-3">{title}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {group.map((source) => (
+          <button
+            key={source.id}
+            onClick={() => toggle(source)}
+            onDoubleClick={() => onSelect([source])}
+            className={`text-left rounded-lg border-2 p-2 transition-colors duration-200 ${
+              selectedIds.indexOf(source.id) !== -1 ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+            }`}
+          >
+            <div className="bg-gray-100 rounded aspect-video flex items-center justify-center overflow-hidden mb-2">
+              <img src={source.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+            </div>
+            <p className="text-sm text-gray-800 truncate" title={source.name}>{source.name}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-3xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Choose what to share</h2>
+            <p className="text-sm text-gray-600">Select several screens to share them all, or a single window</p>
+          </div>
+          <button
+            onClick={loadSources}
+            className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+          >
+            Refresh
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 mb-6">
+          {errorMessage ? (
+            <p className="text-red-700">{errorMessage}</p>
+          ) : !sources ? (
+            <p className="text-gray-600">Loading screens and windows...</p>
+          ) : (
+            <React.Fragment>
+              {renderGroup('Screens', sources.filter((source) => source.type === 'screen'))}
+              {renderGroup('Windows', sources.filter((source) => source.type === 'window'))}
+            </React.Fragment>
+          )}
+        </div>
+
+        <div className="flex space-x-4">
+          <button
+            onClick={onCancel}
+            className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-3 px-6 rounded-lg transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSelect(selected)}
+            disabled={selected.length === 0}
+            className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,10 @@ module.exports = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // The signaling protocol module lives in main/ and is shared with the renderer
+    externalDir: true,
+  },
   webpack: (config) => {
     return config
   },
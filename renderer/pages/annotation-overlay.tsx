@@ -0,0 +1,42 @@
+import React, { useState, useEffect, useRef } from 'react'
+import Head from 'next/head'
+import AnnotationCanvas from '../components/AnnotationCanvas'
+import { AnnotationBoard } from '../utils/annotation'
+import { isAnnotationMessage } from '../../main/helpers/annotation'
+
+// Loaded in the transparent window the main process lays over one of the
+// host's displays, named by the display query parameter
+export default function AnnotationOverlayPage() {
+  const [displayId, setDisplayId] = useState<string | null>(null)
+  const [version, setVersion] = useState(0)
+  const boardRef = useRef(new AnnotationBoard())
+
+  useEffect(() => {
+    // The app's pages have a dark background
+    document.body.style.background = 'transparent'
+    setDisplayId(new URLSearchParams(window.location.search).get('display'))
+
+    return window.ipc.on('annotation', (author, message) => {
+      if (typeof author !== 'string' || !isAnnotationMessage(message)) return
+      boardRef.current.apply(author, message)
+      setVersion((current) => current + 1)
+    })
+  }, [])
+
+  return (
+    <React.Fragment>
+      <Head>
+        <title>Annotations - DeskViewer</title>
+      </Head>
+
+      {displayId && (
+        <AnnotationCanvas
+          board={boardRef.current}
+          displayId={displayId}
+          version={version}
+          className="fixed inset-0 w-screen h-screen pointer-events-none"
+        />
+      )}
+    </React.Fragment>
+  )
+}
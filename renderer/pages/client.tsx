@@ -1,15 +1,114 @@
-import React, { useState, useRef } from 'react'
+import React, { useState, useRef, useEffect } from 'react'
 import Head from 'next/head'
 import Link from 'next/link'
-import { WebRTCManager } from '../utils/webrtc'
+import RemoteVideo from '../components/RemoteVideo'
+import FileTransferList from '../components/FileTransferList'
+import ChatPanel from '../components/ChatPanel'
+import RecordingControls from '../components/RecordingControls'
+import SnapshotGallery from '../components/SnapshotGallery'
+import AnnotationCanvas from '../components/AnnotationCanvas'
+import { FileTransfer, FileTransferManager } from '../utils/file-transfer'
+import { ChatMessage, RemoteDisplay, SignalingError, WebRTCManager } from '../utils/webrtc'
+import { formatTranscript, transcriptFileName } from '../utils/chat'
+import { RecordingStatus, SessionRecorder, recordingFileName } from '../utils/recording'
+import { Snapshot, captureFrame, snapshotFileName } from '../utils/snapshot'
+import { ANNOTATION_COLORS, ANNOTATION_TOOL_LABELS, AnnotationBoard, createStrokeId } from '../utils/annotation'
+import { clipboardSizeError, watchClipboard } from '../utils/clipboard'
+import { ConnectionStats, formatBitrate, formatCandidateType, formatMilliseconds, formatPacketLoss, formatResolution } from '../utils/stats'
+import { loadManagerOptions } from '../utils/settings'
+import { parseInviteLink } from '../utils/invite'
+import { toKeyModifiers, toMouseButton, toNormalizedPoint } from '../utils/remote-input'
+import { MAX_CHAT_MESSAGE_LENGTH } from '../../main/signaling-protocol'
+import { ANNOTATION_TOOLS, AnnotationMessage, AnnotationTool } from '../../main/helpers/annotation'
 
 export default function ClientPage() {
   const [sessionId, setSessionId] = useState('')
+  const [inviteToken, setInviteToken] = useState('')
+  const [password, setPassword] = useState('')
+  const [displayName, setDisplayName] = useState('')
   const [isConnected, setIsConnected] = useState(false)
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected')
+  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'awaiting_approval' | 'connected' | 'reconnecting'>('disconnected')
   const [errorMessage, setErrorMessage] = useState('')
+  const [reconnectNotice, setReconnectNotice] = useState('')
+  const [displays, setDisplays] = useState<RemoteDisplay[]>([])
+  const [activeStreamId, setActiveStreamId] = useState('')
+  const [sideBySide, setSideBySide] = useState(false)
+  const [remoteAudio, setRemoteAudio] = useState<MediaStream | null>(null)
+  const [volume, setVolume] = useState(1)
+  const [muted, setMuted] = useState(false)
+  const [stats, setStats] = useState<ConnectionStats | null>(null)
+  const [showStats, setShowStats] = useState(false)
+  const [clipboardNotice, setClipboardNotice] = useState('')
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([])
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatSessionId, setChatSessionId] = useState('')
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus | null>(null)
+  const [hostRecording, setHostRecording] = useState(false)
+  // Input is only captured while the host takes it
+  const [controlAllowed, setControlAllowed] = useState(false)
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  const [copySnapshots, setCopySnapshots] = useState(false)
+  const [annotating, setAnnotating] = useState(false)
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('freehand')
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0])
+  const [annotationVersion, setAnnotationVersion] = useState(0)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
   const webrtcManagerRef = useRef<WebRTCManager | null>(null)
+  const fileTransferManagerRef = useRef<FileTransferManager | null>(null)
+  const recorderRef = useRef<SessionRecorder | null>(null)
+  const annotationBoardRef = useRef(new AnnotationBoard())
+  // The stroke being drawn while the pointer is down
+  const strokeIdRef = useRef<string | null>(null)
+
+  // The recorder outlives connections so a finished recording stays listed
+  useEffect(() => {
+    const recorder = new SessionRecorder()
+    recorder.setOnChange((status) => {
+      setRecordingStatus(status)
+      webrtcManagerRef.current?.setRecording(status !== null && status.state === 'recording')
+    })
+    recorderRef.current = recorder
+    return () => recorder.stop()
+  }, [])
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = remoteAudio
+    }
+  }, [remoteAudio])
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.volume = volume
+      audioRef.current.muted = muted
+    }
+  }, [volume, muted, remoteAudio])
+
+  // Clipboard changes go both ways while connected; the host decides which
+  // directions it accepts
+  useEffect(() => {
+    const manager = webrtcManagerRef.current
+    if (!isConnected || !manager) return
+
+    const watcher = watchClipboard((content) => {
+      const sizeError = clipboardSizeError(content)
+      setClipboardNotice(sizeError || '')
+      if (!sizeError) {
+        manager.sendClipboard(content)
+      }
+    })
+    manager.setOnClipboard((_peerId, content) => {
+      watcher.write(content).then((written) => {
+        setClipboardNotice(written ? '' : 'Clipboard content from the host could not be pasted here.')
+      })
+    })
+    return () => {
+      watcher.stop()
+      manager.setOnClipboard(() => undefined)
+    }
+  }, [isConnected])
 
   const connectToHost = async () => {
     if (!sessionId.trim()) {
@@ -20,51 +119,310 @@ export default function ClientPage() {
     try {
       setConnectionStatus('connecting')
       setErrorMessage('')
+      setChatMessages([])
+      setChatSessionId(sessionId)
+      setSnapshots([])
       
       // Initialize WebRTC manager
-      webrtcManagerRef.current = new WebRTCManager()
+      webrtcManagerRef.current = new WebRTCManager(await loadManagerOptions())
+      fileTransferManagerRef.current = new FileTransferManager(webrtcManagerRef.current)
+      fileTransferManagerRef.current.setOnChange(setFileTransfers)
       
-      // Set up stream received handler
-      webrtcManagerRef.current.setOnStreamReceived((stream) => {
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream
+      // The host shares one stream per display; keep the selected one while
+      // it is still shared
+      webrtcManagerRef.current.setOnDisplaysChange((received) => {
+        setDisplays(received)
+        setActiveStreamId((current) =>
+          received.some((display) => display.streamId === current) ? current : received.length > 0 ? received[0].streamId : '')
+        if (received.length > 0) {
+          setIsConnected(true)
+          setConnectionStatus('connected')
+        }
+      })
+
+      webrtcManagerRef.current.setOnStatsUpdate((_peerId, sample) => {
+        setStats(sample)
+      })
+
+      webrtcManagerRef.current.setOnAudioChange((stream) => {
+        setRemoteAudio(stream)
+      })
+
+      webrtcManagerRef.current.setOnRecordingChange((peerIds) => {
+        setHostRecording(peerIds.length > 0)
+      })
+
+      webrtcManagerRef.current.setOnRemoteControlChange(setControlAllowed)
+
+      // The host only ever clears annotations
+      webrtcManagerRef.current.setOnAnnotation((_peerId, message) => {
+        annotationBoardRef.current.apply('host', message)
+        setAnnotationVersion((version) => version + 1)
+      })
+
+      webrtcManagerRef.current.setOnChat((message) => {
+        setChatMessages((messages) => [...messages, message])
+      })
+
+      webrtcManagerRef.current.setOnSignalingStateChange((state) => {
+        if (state === 'reconnecting') {
+          setReconnectNotice('Connection to the signaling server lost. Reconnecting...')
+        } else {
+          setReconnectNotice('')
         }
-        setIsConnected(true)
-        setConnectionStatus('connected')
+        if (state === 'disconnected') {
+          setErrorMessage('Lost connection to the signaling server.')
+        }
+      })
+
+      webrtcManagerRef.current.setOnHostStatusChange((status) => {
+        setReconnectNotice(status === 'reconnecting' ? 'The host lost its connection. Waiting for it to come back...' : '')
+      })
+
+      webrtcManagerRef.current.setOnJoinPending(() => {
+        setConnectionStatus('awaiting_approval')
       })
 
       // Set up connection state change handler
       webrtcManagerRef.current.setOnConnectionStateChange((state) => {
         if (state === 'connected') {
           setConnectionStatus('connected')
-        } else if (state === 'disconnected') {
+        } else if (state === 'reconnecting') {
+          setConnectionStatus('reconnecting')
+        } else if (state === 'disconnected' || state === 'failed') {
           setConnectionStatus('disconnected')
           setIsConnected(false)
         }
       })
 
+      webrtcManagerRef.current.setOnError((message) => {
+        setErrorMessage(message)
+      })
+
       // Start WebRTC client session
-      await webrtcManagerRef.current.startClient(sessionId)
+      await webrtcManagerRef.current.startClient(sessionId, { password, displayName, inviteToken })
       
       console.log('Connecting to session:', sessionId)
       
     } catch (error) {
       console.error('Error connecting to host:', error)
       setConnectionStatus('disconnected')
-      setErrorMessage('Failed to connect to host. Please check the session ID.')
+      fileTransferManagerRef.current?.dispose()
+      fileTransferManagerRef.current = null
+      webrtcManagerRef.current?.disconnect()
+      webrtcManagerRef.current = null
+      if (error instanceof SignalingError && error.code === 'password_required') {
+        setErrorMessage('This session is password protected. Enter the password from the host.')
+      } else if (error instanceof SignalingError && error.code === 'invalid_password') {
+        setErrorMessage('Incorrect password. Please check it with the host and try again.')
+      } else if (error instanceof SignalingError && error.code === 'join_denied') {
+        setErrorMessage('The host declined your request to join.')
+      } else if (error instanceof SignalingError && error.code === 'join_timeout') {
+        setErrorMessage('The host did not respond in time. Please try again.')
+      } else if (error instanceof SignalingError && error.code === 'invite_required') {
+        setErrorMessage('This session only accepts invite links. Ask the host to send you one.')
+      } else if (error instanceof SignalingError && error.code === 'invalid_invite') {
+        setErrorMessage('This invite link is invalid, has expired or was already used. Ask the host for a new one.')
+      } else if (error instanceof SignalingError && error.code !== 'session_not_found') {
+        setErrorMessage(error.message)
+      } else {
+        setErrorMessage('Failed to connect to host. Please check the session ID.')
+      }
     }
   }
 
+  // Accepts either a bare session ID or a pasted invite link
+  const handleSessionInput = (value: string) => {
+    const invite = parseInviteLink(value)
+    if (invite) {
+      setSessionId(invite.sessionId)
+      setInviteToken(invite.inviteToken)
+    } else {
+      setSessionId(value.toUpperCase())
+      setInviteToken('')
+    }
+  }
+
+  // Pointer events name the host display under the cursor. Windows carry
+  // no display, and the host then uses its first shared one.
+  const sendPointerEvent = (
+    event: React.MouseEvent<HTMLVideoElement>,
+    type: 'mouse_move' | 'mouse_down' | 'mouse_up',
+    displayId?: string
+  ) => {
+    if (!controlAllowed) return
+    const point = toNormalizedPoint(event.currentTarget, event.clientX, event.clientY)
+    if (!point || !webrtcManagerRef.current) return
+
+    if (type === 'mouse_move') {
+      webrtcManagerRef.current.sendInputEvent({ type, ...point, displayId })
+    } else {
+      event.currentTarget.focus()
+      webrtcManagerRef.current.sendInputEvent({ type, ...point, displayId, button: toMouseButton(event.button) })
+    }
+  }
+
+  const handleWheel = (event: React.WheelEvent<HTMLVideoElement>, displayId?: string) => {
+    if (!controlAllowed) return
+    const point = toNormalizedPoint(event.currentTarget, event.clientX, event.clientY)
+    if (!point || !webrtcManagerRef.current) return
+
+    webrtcManagerRef.current.sendInputEvent({
+      type: 'wheel',
+      ...point,
+      displayId,
+      deltaX: event.deltaX,
+      deltaY: event.deltaY
+    })
+  }
+
+  const handleKey = (event: React.KeyboardEvent<HTMLVideoElement>, type: 'key_down' | 'key_up') => {
+    if (!controlAllowed || !webrtcManagerRef.current) return
+
+    // Keep keys like Tab and Space on the remote machine
+    event.preventDefault()
+    webrtcManagerRef.current.sendInputEvent({
+      type,
+      key: event.key,
+      code: event.code,
+      modifiers: toKeyModifiers(event)
+    })
+  }
+
+  // Files dropped on the remote screen are offered to the host
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDraggingFile(false)
+    if (!fileTransferManagerRef.current) return
+
+    Array.from(event.dataTransfer.files).forEach((file) => {
+      if (fileTransferManagerRef.current!.sendFile(file) === 0) {
+        setErrorMessage('The connection to the host is not ready to send files.')
+      }
+    })
+  }
+
+  const sendChat = (text: string) => {
+    if (!webrtcManagerRef.current) return
+    try {
+      const message = webrtcManagerRef.current.sendChat(text)
+      setChatMessages((messages) => [...messages, message])
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to send the message')
+    }
+  }
+
+  // The transcript outlives the session until the next one starts
+  const saveTranscript = async () => {
+    try {
+      await window.electronAPI.saveTextFile(transcriptFileName(chatSessionId), formatTranscript(chatSessionId, chatMessages))
+    } catch (error) {
+      console.error('Error saving chat transcript:', error)
+      setErrorMessage('Failed to save the chat transcript')
+    }
+  }
+
+  // Records the display being watched, with the host's audio if it shares any
+  const startRecording = async () => {
+    const display = displays.filter((candidate) => candidate.streamId === activeStreamId)[0] || displays[0]
+    if (!display || !recorderRef.current) return
+
+    try {
+      setErrorMessage('')
+      const tracks = display.stream.getVideoTracks().concat(remoteAudio ? remoteAudio.getAudioTracks() : [])
+      await recorderRef.current.start(new MediaStream(tracks), recordingFileName(sessionId))
+    } catch (error) {
+      console.error('Error starting recording:', error)
+      setErrorMessage('Failed to start recording. Check the recording folder in settings.')
+    }
+  }
+
+  // Saves the frame of the display being watched, at the resolution the host
+  // sends it
+  const takeSnapshot = async () => {
+    const video = videoRef.current
+    if (!video) return
+
+    try {
+      setErrorMessage('')
+      const takenAt = new Date()
+      const frame = await captureFrame(video)
+      const path = await window.electronAPI.saveSnapshot(snapshotFileName(sessionId, takenAt), frame.png, copySnapshots)
+      const { thumbnailUrl, width, height } = frame
+      setSnapshots((current) => [{ id: path, path, thumbnailUrl, width, height, takenAt: takenAt.getTime() }, ...current])
+    } catch (error) {
+      console.error('Error taking snapshot:', error)
+      setErrorMessage('Failed to save the snapshot. Check the snapshot folder in settings.')
+    }
+  }
+
+  const openSnapshot = async (snapshot: Snapshot) => {
+    if (!(await window.electronAPI.openSnapshot(snapshot.path))) {
+      setErrorMessage(`Could not open ${snapshot.path}`)
+    }
+  }
+
+  // Drawn locally and sent to the host, which shows it over its screen
+  const applyAnnotation = (message: AnnotationMessage) => {
+    annotationBoardRef.current.apply('self', message)
+    setAnnotationVersion((version) => version + 1)
+    webrtcManagerRef.current?.sendAnnotation(message)
+  }
+
+  const annotationPoint = (event: React.PointerEvent<HTMLCanvasElement>) =>
+    videoRef.current ? toNormalizedPoint(videoRef.current, event.clientX, event.clientY) : null
+
+  const beginAnnotation = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = annotationPoint(event)
+    if (!point) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const display = displays.filter((candidate) => candidate.streamId === activeStreamId)[0]
+    const id = createStrokeId()
+    strokeIdRef.current = id
+    applyAnnotation({
+      type: 'begin',
+      stroke: { id, tool: annotationTool, color: annotationColor, displayId: display?.display?.id || null, points: [point] }
+    })
+  }
+
+  const extendAnnotation = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = annotationPoint(event)
+    if (!strokeIdRef.current || !point) return
+    applyAnnotation({ type: 'extend', id: strokeIdRef.current, points: [point] })
+  }
+
+  const handleFileDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!isConnected || event.dataTransfer.types.indexOf('Files') === -1) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFile(true)
+  }
+
   const disconnect = () => {
     setIsConnected(false)
     setConnectionStatus('disconnected')
     setErrorMessage('')
+    setReconnectNotice('')
     
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream
-      stream.getTracks().forEach(track => track.stop())
-      videoRef.current.srcObject = null
-    }
+    displays.forEach(({ stream }) => stream.getTracks().forEach(track => track.stop()))
+    setDisplays([])
+    setActiveStreamId('')
+    setSideBySide(false)
+    remoteAudio?.getTracks().forEach(track => track.stop())
+    setRemoteAudio(null)
+    setStats(null)
+    setClipboardNotice('')
+    setHostRecording(false)
+    setControlAllowed(false)
+    recorderRef.current?.stop()
+    setAnnotating(false)
+    annotationBoardRef.current.clear()
+    strokeIdRef.current = null
+
+    fileTransferManagerRef.current?.dispose()
+    fileTransferManagerRef.current = null
+    setFileTransfers([])
 
     // Disconnect WebRTC
     if (webrtcManagerRef.current) {
@@ -100,22 +458,54 @@ export default function ClientPage() {
               {/* Session ID Input */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Host Session ID
+                  Host Session ID or Invite Link
                 </label>
                 <input
                   type="text"
                   value={sessionId}
-                  onChange={(e) => setSessionId(e.target.value.toUpperCase())}
-                  placeholder="Enter session ID (e.g., ABC123)"
+                  onChange={(e) => handleSessionInput(e.target.value)}
+                  placeholder="Enter session ID (e.g., K7QM2XPA) or paste an invite link"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-black text-lg"
-                  maxLength={6}
                   disabled={isConnected}
                 />
                 <p className="text-sm text-gray-600 mt-2">
-                  Enter the session ID provided by the host
+                  {inviteToken
+                    ? 'Invite link applied'
+                    : 'Enter the session ID provided by the host'}
                 </p>
               </div>
 
+              {/* Display Name */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Name
+                </label>
+                <input
+                  type="text"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  placeholder="Shown to the host when you ask to join"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-black text-lg"
+                  maxLength={64}
+                  disabled={isConnected}
+                />
+              </div>
+
+              {/* Session Password */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Only if the host set one"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-black text-lg"
+                  disabled={isConnected}
+                />
+              </div>
+
               {/* Connection Status */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -124,15 +514,31 @@ export default function ClientPage() {
                 <div className="flex items-center space-x-3 text-black">
                   <div className={`w-3 h-3 rounded-full ${
                     connectionStatus === 'connected' ? 'bg-green-500' :
-                    connectionStatus === 'connecting' ? 'bg-yellow-500' : 'bg-red-500'
+                    connectionStatus === 'connecting' || connectionStatus === 'awaiting_approval' ||
+                    connectionStatus === 'reconnecting' ? 'bg-yellow-500' : 'bg-red-500'
                   }`}></div>
                   <span className="font-medium">
                     {connectionStatus === 'connected' ? 'Connected' :
-                     connectionStatus === 'connecting' ? 'Connecting...' : 'Disconnected'}
+                     connectionStatus === 'connecting' ? 'Connecting...' :
+                     connectionStatus === 'reconnecting' ? 'Reconnecting...' :
+                     connectionStatus === 'awaiting_approval' ? 'Waiting for the host to let you in...' : 'Disconnected'}
                   </span>
                 </div>
               </div>
 
+              {/* Reconnect Notice */}
+              {reconnectNotice && (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <svg className="animate-spin w-5 h-5 text-yellow-600" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    <span className="text-yellow-800 font-medium">{reconnectNotice}</span>
+                  </div>
+                </div>
+              )}
+
               {/* Error Message */}
               {errorMessage && (
                 <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -150,16 +556,16 @@ export default function ClientPage() {
                 {!isConnected ? (
                   <button
                     onClick={connectToHost}
-                    disabled={connectionStatus === 'connecting'}
+                    disabled={connectionStatus === 'connecting' || connectionStatus === 'awaiting_approval'}
                     className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-3"
                   >
-                    {connectionStatus === 'connecting' ? (
+                    {connectionStatus === 'connecting' || connectionStatus === 'awaiting_approval' ? (
                       <>
                         <svg className="animate-spin w-6 h-6" fill="none" viewBox="0 0 24 24">
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        <span>Connecting...</span>
+                        <span>{connectionStatus === 'awaiting_approval' ? 'Waiting for host...' : 'Connecting...'}</span>
                       </>
                     ) : (
                       <>
@@ -186,15 +592,122 @@ export default function ClientPage() {
 
             {/* Right Panel - Remote Screen */}
             <div className="bg-white rounded-2xl shadow-xl p-8">
-              <h2 className="text-2xl font-semibold text-gray-800 mb-6">Remote Screen</h2>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold text-gray-800">Remote Screen</h2>
+                {isConnected && (
+                  <button
+                    onClick={() => setShowStats(!showStats)}
+                    className="text-green-600 hover:text-green-800 font-medium text-sm"
+                  >
+                    {showStats ? 'Hide Statistics' : 'Show Statistics'}
+                  </button>
+                )}
+              </div>
+
+              {/* Annotation Toolbar */}
+              {isConnected && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <button
+                    onClick={() => setAnnotating(!annotating)}
+                    disabled={sideBySide}
+                    title={sideBySide ? 'Turn off side by side to annotate' : undefined}
+                    className={`py-2 px-4 rounded-lg text-sm font-medium transition-colors duration-200 disabled:opacity-50 ${
+                      annotating ? 'bg-green-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                    }`}
+                  >
+                    {annotating ? 'Stop Annotating' : 'Annotate'}
+                  </button>
+                  {annotating && !sideBySide && (
+                    <React.Fragment>
+                      {ANNOTATION_TOOLS.map((tool) => (
+                        <button
+                          key={tool}
+                          onClick={() => setAnnotationTool(tool)}
+                          className={`py-2 px-3 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                            tool === annotationTool ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                          }`}
+                        >
+                          {ANNOTATION_TOOL_LABELS[tool]}
+                        </button>
+                      ))}
+                      {ANNOTATION_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          onClick={() => setAnnotationColor(color)}
+                          aria-label={`Color ${color}`}
+                          className={`w-7 h-7 rounded-full border-2 ${color === annotationColor ? 'border-gray-800' : 'border-white'}`}
+                          style={{ backgroundColor: color }}
+                        />
+                      ))}
+                      <button
+                        onClick={() => applyAnnotation({ type: 'clear' })}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium ml-2"
+                      >
+                        Clear
+                      </button>
+                    </React.Fragment>
+                  )}
+                </div>
+              )}
+
+              {/* Display Switcher */}
+              {displays.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {!sideBySide && displays.map((display) => (
+                    <button
+                      key={display.streamId}
+                      onClick={() => setActiveStreamId(display.streamId)}
+                      className={`py-2 px-4 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                        display.streamId === activeStreamId
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                      }`}
+                    >
+                      {display.label}
+                    </button>
+                  ))}
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 ml-auto">
+                    <input
+                      type="checkbox"
+                      checked={sideBySide}
+                      onChange={(e) => setSideBySide(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    <span>Side by side</span>
+                  </label>
+                </div>
+              )}
               
-              <div className="bg-gray-100 rounded-lg overflow-hidden aspect-video flex items-center justify-center">
+              <div
+                onDragOver={handleFileDragOver}
+                onDragLeave={() => setIsDraggingFile(false)}
+                onDrop={handleFileDrop}
+                className={`relative bg-gray-100 rounded-lg overflow-hidden aspect-video flex items-center justify-center ${
+                  isConnected && sideBySide ? 'space-x-1' : ''
+                } ${isDraggingFile ? 'ring-4 ring-green-500' : ''}`}
+              >
                 {isConnected ? (
-                  <video
-                    ref={videoRef}
-                    autoPlay
-                    className="w-full h-full object-contain"
-                  />
+                  displays
+                    .filter((display) => sideBySide || display.streamId === activeStreamId)
+                    .map((display) => (
+                      <RemoteVideo
+                        key={display.streamId}
+                        ref={display.streamId === activeStreamId ? videoRef : undefined}
+                        stream={display.stream}
+                        title={display.label}
+                        tabIndex={controlAllowed ? 0 : undefined}
+                        onMouseMove={(e) => sendPointerEvent(e, 'mouse_move', display.display?.id)}
+                        onMouseDown={(e) => sendPointerEvent(e, 'mouse_down', display.display?.id)}
+                        onMouseUp={(e) => sendPointerEvent(e, 'mouse_up', display.display?.id)}
+                        onWheel={(e) => handleWheel(e, display.display?.id)}
+                        onKeyDown={(e) => handleKey(e, 'key_down')}
+                        onKeyUp={(e) => handleKey(e, 'key_up')}
+                        onContextMenu={(e) => {
+                          if (controlAllowed) e.preventDefault()
+                        }}
+                        className="flex-1 min-w-0 h-full object-contain outline-none"
+                      />
+                    ))
                 ) : (
                   <div className="text-center text-gray-500">
                     <svg className="w-16 h-16 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -205,7 +718,148 @@ export default function ClientPage() {
                     <p className="text-sm">Enter a session ID and click "Connect"</p>
                   </div>
                 )}
+
+                {/* Annotation Layer */}
+                {isConnected && !sideBySide && (
+                  <AnnotationCanvas
+                    board={annotationBoardRef.current}
+                    displayId={displays.filter((display) => display.streamId === activeStreamId)[0]?.display?.id || null}
+                    version={annotationVersion}
+                    videoRef={videoRef}
+                    onPointerDown={beginAnnotation}
+                    onPointerMove={extendAnnotation}
+                    onPointerUp={() => { strokeIdRef.current = null }}
+                    onPointerCancel={() => { strokeIdRef.current = null }}
+                    className={`absolute inset-0 w-full h-full ${annotating ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                  />
+                )}
+
+                {/* Recording Indicator */}
+                {isConnected && hostRecording && (
+                  <div className="absolute top-2 right-2 flex items-center space-x-2 bg-red-600 text-white text-xs font-semibold rounded-lg px-3 py-1 pointer-events-none">
+                    <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
+                    <span>The host is recording</span>
+                  </div>
+                )}
+
+                {/* Statistics Overlay */}
+                {isConnected && showStats && (
+                  <div className="absolute top-2 left-2 bg-black bg-opacity-70 text-white text-xs font-mono rounded-lg p-3 pointer-events-none">
+                    {stats ? (
+                      <table>
+                        <tbody>
+                          <tr><td className="pr-3 text-gray-300">Receiving</td><td>{formatBitrate(stats.inboundBitrate)}</td></tr>
+                          <tr><td className="pr-3 text-gray-300">Video</td><td>{formatResolution(stats)}</td></tr>
+                          <tr><td className="pr-3 text-gray-300">RTT</td><td>{formatMilliseconds(stats.roundTripTime)}</td></tr>
+                          <tr><td className="pr-3 text-gray-300">Loss</td><td>{formatPacketLoss(stats.packetLoss)}</td></tr>
+                          <tr><td className="pr-3 text-gray-300">Jitter</td><td>{formatMilliseconds(stats.jitter)}</td></tr>
+                          <tr><td className="pr-3 text-gray-300">Route</td><td>{formatCandidateType(stats)}</td></tr>
+                        </tbody>
+                      </table>
+                    ) : (
+                      <span>Gathering statistics...</span>
+                    )}
+                  </div>
+                )}
               </div>
+
+              <audio ref={audioRef} autoPlay className="hidden" />
+
+              {/* Recording */}
+              {(isConnected || recordingStatus) && (
+                <div className="mt-4">
+                  <RecordingControls
+                    status={recordingStatus}
+                    disabled={!isConnected}
+                    onStart={startRecording}
+                    onStop={() => recorderRef.current?.stop()}
+                    onDismiss={() => recorderRef.current?.dismiss()}
+                  />
+                </div>
+              )}
+
+              {/* Snapshots */}
+              {isConnected && (
+                <div className="mt-4 flex items-center space-x-3">
+                  <button
+                    onClick={takeSnapshot}
+                    className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    Snapshot
+                  </button>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={copySnapshots}
+                      onChange={(e) => setCopySnapshots(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    <span>Also copy to clipboard</span>
+                  </label>
+                </div>
+              )}
+              {snapshots.length > 0 && (
+                <div className="mt-4">
+                  <SnapshotGallery
+                    snapshots={snapshots}
+                    onOpen={openSnapshot}
+                    onClear={() => setSnapshots([])}
+                  />
+                </div>
+              )}
+
+              {/* File Transfers */}
+              {fileTransfers.length > 0 && (
+                <div className="mt-4">
+                  <FileTransferList
+                    transfers={fileTransfers}
+                    onAccept={(id) => fileTransferManagerRef.current?.accept(id)}
+                    onDecline={(id) => fileTransferManagerRef.current?.decline(id)}
+                    onCancel={(id) => fileTransferManagerRef.current?.cancel(id)}
+                    onDismiss={(id) => fileTransferManagerRef.current?.dismiss(id)}
+                  />
+                </div>
+              )}
+
+              {/* Chat */}
+              {(isConnected || chatMessages.length > 0) && (
+                <ChatPanel
+                  messages={chatMessages}
+                  maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  onSend={sendChat}
+                  onSaveTranscript={saveTranscript}
+                />
+              )}
+
+              {/* Audio Controls */}
+              {isConnected && (
+                <div className="mt-4 flex items-center space-x-3">
+                  {remoteAudio ? (
+                    <React.Fragment>
+                      <button
+                        onClick={() => setMuted(!muted)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-lg text-sm transition-colors duration-200"
+                      >
+                        {muted ? 'Unmute' : 'Mute'}
+                      </button>
+                      <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={volume}
+                        onChange={(e) => setVolume(Number(e.target.value))}
+                        disabled={muted}
+                        aria-label="Volume"
+                        className="flex-1"
+                      />
+                      <span className="text-sm text-gray-600 w-12 text-right">{muted ? 'Muted' : `${Math.round(volume * 100)}%`}</span>
+                    </React.Fragment>
+                  ) : (
+                    <p className="text-sm text-gray-600">The host is not sharing audio</p>
+                  )}
+                </div>
+              )}
               
               {isConnected && (
                 <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -215,6 +869,20 @@ export default function ClientPage() {
                     </svg>
                     <span className="text-green-700 font-medium">Connected to session: {sessionId}</span>
                   </div>
+                  <p className="text-sm text-green-700 mt-1">
+                    {controlAllowed
+                      ? 'Click the remote screen to send mouse and keyboard input.'
+                      : 'The host has not allowed control, so your mouse and keyboard stay on this computer.'}
+                  </p>
+                  <p className="text-sm text-green-700 mt-1">
+                    Drop files on the remote screen to send them to the host.
+                  </p>
+                  <p className="text-sm text-green-700 mt-1">
+                    Copied text and images are shared with the host when it allows clipboard sync.
+                  </p>
+                  {clipboardNotice && (
+                    <p className="text-sm text-yellow-700 mt-1">{clipboardNotice}</p>
+                  )}
                 </div>
               )}
             </div>
@@ -82,6 +82,12 @@ export default function HomePage() {
               )}
             </div>
           )}
+
+          <div className="mt-8 text-center">
+            <Link href="/settings" className="text-sm text-gray-500 hover:text-gray-700 font-medium">
+              Connection Settings
+            </Link>
+          </div>
         </div>
       </div>
     </React.Fragment>
@@ -1,71 +1,405 @@
 import React, { useState, useEffect, useRef } from 'react'
 import Head from 'next/head'
 import Link from 'next/link'
-import { WebRTCManager } from '../utils/webrtc'
+import { ChatMessage, JoinRequest, SessionInvite, SharedStream, WebRTCManager } from '../utils/webrtc'
+import { loadManagerOptions } from '../utils/settings'
+import { QUALITY_MODE_LABELS } from '../utils/quality'
+import { ConnectionStats, formatBitrate, formatCandidateType, formatMilliseconds, formatPacketLoss, formatResolution } from '../utils/stats'
+import { buildInviteLink } from '../utils/invite'
+import { ClipboardWatcher, clipboardSizeError, watchClipboard } from '../utils/clipboard'
+import SourcePicker from '../components/SourcePicker'
+import FileTransferList from '../components/FileTransferList'
+import ChatPanel from '../components/ChatPanel'
+import RecordingControls from '../components/RecordingControls'
+import AnnotationCanvas from '../components/AnnotationCanvas'
+import { formatTranscript, transcriptFileName } from '../utils/chat'
+import { RecordingStatus, SessionRecorder, recordingFileName } from '../utils/recording'
+import { AnnotationBoard } from '../utils/annotation'
+import { FileTransfer, FileTransferManager } from '../utils/file-transfer'
+import { MAX_CLIPBOARD_BYTES } from '../../main/helpers/clipboard'
+import { MAX_CHAT_MESSAGE_LENGTH } from '../../main/signaling-protocol'
+import type { CaptureSource } from '../../main/helpers/capture-sources'
+import type { QualityMode, RememberedSource } from '../../main/helpers/settings'
+
+// Seconds an invite stays valid; 0 means for the rest of the session
+const INVITE_EXPIRY_OPTIONS = [
+  { label: '15 minutes', seconds: 15 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: 'Never', seconds: 0 }
+]
 
 export default function HostPage() {
   const [sessionId, setSessionId] = useState<string>('')
   const [isSharing, setIsSharing] = useState(false)
-  const [connectionStatus, setConnectionStatus] = useState<'waiting' | 'connected' | 'disconnected'>('disconnected')
+  const [connectionStatus, setConnectionStatus] = useState<'waiting' | 'connected' | 'reconnecting' | 'disconnected'>('disconnected')
   const [connectedClients, setConnectedClients] = useState(0)
+  const [reconnectingClients, setReconnectingClients] = useState(0)
+  const [allowControl, setAllowControl] = useState(false)
+  const [controlSupported, setControlSupported] = useState(false)
+  // What the main process last confirmed, for managers created later
+  const controlEnabledRef = useRef(false)
+  const [errorMessage, setErrorMessage] = useState('')
+  const [reconnectNotice, setReconnectNotice] = useState('')
+  const [password, setPassword] = useState('')
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([])
+  const [invite, setInvite] = useState<SessionInvite | null>(null)
+  const [inviteSingleUse, setInviteSingleUse] = useState(true)
+  const [inviteExpirySeconds, setInviteExpirySeconds] = useState(INVITE_EXPIRY_OPTIONS[0].seconds)
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false)
+  const [showSourcePicker, setShowSourcePicker] = useState(false)
+  const [rememberedSources, setRememberedSources] = useState<RememberedSource[]>([])
+  const [sourceNames, setSourceNames] = useState<string[]>([])
+  const [shareAudio, setShareAudio] = useState(false)
+  const [audioNotice, setAudioNotice] = useState('')
+  const [qualityMode, setQualityMode] = useState<QualityMode>('balanced')
+  const [viewerStats, setViewerStats] = useState<Record<string, ConnectionStats>>({})
+  const [clipboardToViewers, setClipboardToViewers] = useState(false)
+  const [clipboardFromViewers, setClipboardFromViewers] = useState(false)
+  const [clipboardNotice, setClipboardNotice] = useState('')
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([])
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatSessionId, setChatSessionId] = useState('')
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus | null>(null)
+  const [recordingViewers, setRecordingViewers] = useState<string[]>([])
+  const [annotationVersion, setAnnotationVersion] = useState(0)
   const videoRef = useRef<HTMLVideoElement>(null)
   const webrtcManagerRef = useRef<WebRTCManager | null>(null)
+  const peerStatesRef = useRef<Map<string, string>>(new Map())
+  const sharedStreamsRef = useRef<SharedStream[]>([])
+  const audioStreamRef = useRef<MediaStream | null>(null)
+  const clipboardWatcherRef = useRef<ClipboardWatcher | null>(null)
+  const clipboardFromViewersRef = useRef(false)
+  const fileTransferManagerRef = useRef<FileTransferManager | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const recorderRef = useRef<SessionRecorder | null>(null)
+  const annotationBoardRef = useRef(new AnnotationBoard())
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then((settings) => {
+      setRememberedSources(settings.captureSources)
+      setShareAudio(settings.shareSystemAudio)
+      setQualityMode(settings.qualityMode)
+    })
+  }, [])
+
+  // The recorder outlives sessions so a finished recording stays listed
+  useEffect(() => {
+    const recorder = new SessionRecorder()
+    recorder.setOnChange((status) => {
+      setRecordingStatus(status)
+      webrtcManagerRef.current?.setRecording(status !== null && status.state === 'recording')
+    })
+    recorderRef.current = recorder
+    return () => recorder.stop()
+  }, [])
 
   useEffect(() => {
-    // Generate a random session ID when component mounts
-    const generateSessionId = () => {
-      const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
-      let result = ''
-      for (let i = 0; i < 6; i++) {
-        result += chars.charAt(Math.floor(Math.random() * chars.length))
+    window.electronAPI.isRemoteControlSupported().then(setControlSupported)
+  }, [])
+
+  useEffect(() => {
+    window.electronAPI.setRemoteControlEnabled(allowControl).then((enabled) => {
+      controlEnabledRef.current = enabled
+      webrtcManagerRef.current?.setRemoteControl(enabled)
+    })
+  }, [allowControl])
+
+  // Send what the host copies while sharing. The watcher also runs when only
+  // receiving, so clipboard text from viewers is not bounced back to them.
+  useEffect(() => {
+    if (!isSharing || (!clipboardToViewers && !clipboardFromViewers)) return
+
+    const watcher = watchClipboard((content) => {
+      if (!clipboardToViewers) return
+      const sizeError = clipboardSizeError(content)
+      setClipboardNotice(sizeError || '')
+      if (!sizeError) {
+        webrtcManagerRef.current?.sendClipboard(content)
       }
-      return result
+    })
+    clipboardWatcherRef.current = watcher
+    return () => {
+      watcher.stop()
+      clipboardWatcherRef.current = null
+    }
+  }, [isSharing, clipboardToViewers, clipboardFromViewers])
+
+  useEffect(() => {
+    clipboardFromViewersRef.current = clipboardFromViewers
+  }, [clipboardFromViewers])
+
+  // Never leave control enabled after the host page goes away
+  useEffect(() => {
+    return () => {
+      window.electronAPI.setRemoteControlEnabled(false)
     }
-    setSessionId(generateSessionId())
   }, [])
 
-  const startSharing = async () => {
+  // Capture each screen or window picked through desktopCapturer as its
+  // own stream
+  const captureSources = async (sources: CaptureSource[]): Promise<SharedStream[]> => {
+    const shared: SharedStream[] = []
+    try {
+      for (const source of sources) {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: false,
+          video: {
+            mandatory: {
+              chromeMediaSource: 'desktop',
+              chromeMediaSourceId: source.id,
+              // The quality preset caps what is actually sent
+              maxFrameRate: 60
+            }
+          } as any
+        })
+
+        // A shared window that closes ends its track
+        stream.getVideoTracks()[0].onended = () => {
+          setErrorMessage(`${source.name} is no longer available. Switch to another source or stop sharing.`)
+        }
+
+        shared.push({ stream, label: source.name, display: source.display })
+      }
+    } catch (error) {
+      stopStreams(shared)
+      throw error
+    }
+    return shared
+  }
+
+  const stopStreams = (shared: SharedStream[]) => {
+    shared.forEach(({ stream }) => stream.getTracks().forEach((track) => track.stop()))
+  }
+
+  const showSharedStreams = (shared: SharedStream[]) => {
+    sharedStreamsRef.current = shared
+    setSourceNames(shared.map((item) => item.label))
+    if (videoRef.current) {
+      videoRef.current.srcObject = shared[0].stream
+    }
+  }
+
+  // Pointer input names the display it is on; anything else, or a display
+  // that is no longer shared, goes to the first shared display. Windows have
+  // no display, so their input lands on the primary one.
+  const inputDisplayId = (requested?: string) => {
+    const displayIds = sharedStreamsRef.current
+      .map((item) => item.display ? item.display.id : '')
+      .filter((id) => !!id)
+    return requested && displayIds.indexOf(requested) !== -1 ? requested : displayIds[0] || ''
+  }
+
+  // Chromium only captures desktop loopback audio together with a desktop
+  // video, which is dropped straight away. Returns null where the platform
+  // cannot capture system audio.
+  const captureSystemAudio = async (): Promise<MediaStream | null> => {
     try {
-      setIsSharing(true)
-      setConnectionStatus('waiting')
-      
-      // Request screen capture using Electron's desktopCapturer
-      const sources = await window.electronAPI.getDisplayMedia()
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: false,
-        video: {
-          mandatory: {
-            chromeMediaSource: 'desktop',
-            chromeMediaSourceId: sources[0].id
-          }
-        } as any
+        audio: { mandatory: { chromeMediaSource: 'desktop' } } as any,
+        video: { mandatory: { chromeMediaSource: 'desktop' } } as any
+      })
+      stream.getVideoTracks().forEach((track) => {
+        track.stop()
+        stream.removeTrack(track)
       })
+      if (stream.getAudioTracks().length > 0) {
+        setAudioNotice('')
+        return stream
+      }
+    } catch (error) {
+      console.error('Error capturing system audio:', error)
+    }
+    setAudioNotice('System audio cannot be captured on this computer, so viewers will see the screen without sound.')
+    return null
+  }
+
+  const stopAudio = () => {
+    audioStreamRef.current?.getTracks().forEach((track) => track.stop())
+    audioStreamRef.current = null
+  }
+
+  const toggleAudio = async (enabled: boolean) => {
+    setShareAudio(enabled)
+    setAudioNotice('')
+    window.electronAPI.saveSettings({ shareSystemAudio: enabled }).catch((error) => {
+      console.error('Error remembering audio setting:', error)
+    })
+    if (!isSharing) return
+
+    try {
+      const audio = enabled ? await captureSystemAudio() : null
+      await webrtcManagerRef.current?.setSharedAudio(audio)
+      stopAudio()
+      audioStreamRef.current = audio
+    } catch (error) {
+      console.error('Error changing system audio:', error)
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to change system audio')
+    }
+  }
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
+  const changeQuality = (mode: QualityMode) => {
+    setQualityMode(mode)
+    window.electronAPI.saveSettings({ qualityMode: mode }).catch((error) => {
+      console.error('Error remembering quality mode:', error)
+    })
+    webrtcManagerRef.current?.setQuality(mode).catch((error) => {
+      console.error('Error changing quality:', error)
+    })
+  }
+
+  const handleSourcesSelected = (sources: CaptureSource[]) => {
+    setShowSourcePicker(false)
+
+    const remembered = sources.map((source) => ({ id: source.id, name: source.name }))
+    setRememberedSources(remembered)
+    window.electronAPI.saveSettings({ captureSources: remembered }).catch((error) => {
+      console.error('Error remembering capture sources:', error)
+    })
+
+    if (isSharing) {
+      switchSources(sources)
+    } else {
+      startSharing(sources)
+    }
+  }
+
+  // Viewers keep their connections; displays that stay in place only swap
+  // their video track
+  const switchSources = async (sources: CaptureSource[]) => {
+    try {
+      setErrorMessage('')
+      const shared = await captureSources(sources)
+      const previous = sharedStreamsRef.current
+
+      try {
+        await webrtcManagerRef.current?.setSharedStreams(shared)
+      } catch (error) {
+        stopStreams(shared)
+        throw error
       }
+      showSharedStreams(shared)
+      // A recording holds the old screen's track
+      recorderRef.current?.stop()
+      stopStreams(previous)
+    } catch (error) {
+      console.error('Error switching source:', error)
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to switch source')
+    }
+  }
+
+  const startSharing = async (sources: CaptureSource[]) => {
+    try {
+      setIsSharing(true)
+      setConnectionStatus('waiting')
+      setErrorMessage('')
+      setReconnectNotice('')
+      setChatMessages([])
+      
+      const shared = await captureSources(sources)
+      showSharedStreams(shared)
 
       // Initialize WebRTC manager
-      webrtcManagerRef.current = new WebRTCManager()
+      webrtcManagerRef.current = new WebRTCManager(await loadManagerOptions())
+      webrtcManagerRef.current.setRemoteControl(controlEnabledRef.current)
+      await webrtcManagerRef.current.setQuality(qualityMode)
+
+      fileTransferManagerRef.current = new FileTransferManager(webrtcManagerRef.current)
+      fileTransferManagerRef.current.setOnChange(setFileTransfers)
+
+      if (shareAudio) {
+        audioStreamRef.current = await captureSystemAudio()
+        await webrtcManagerRef.current.setSharedAudio(audioStreamRef.current)
+      }
       
-      // Set up connection state change handler
-      webrtcManagerRef.current.setOnConnectionStateChange((state) => {
-        if (state === 'connected') {
-          setConnectionStatus('connected')
-        } else if (state === 'disconnected') {
-          setConnectionStatus('disconnected')
+      // Track each viewer's connection separately
+      webrtcManagerRef.current.setOnPeerStateChange((clientId, state) => {
+        const peerStates = peerStatesRef.current
+        if (state === 'closed' || state === 'failed') {
+          peerStates.delete(clientId)
+          setViewerStats((current) => {
+            const { [clientId]: _removed, ...rest } = current
+            return rest
+          })
+        } else {
+          peerStates.set(clientId, state)
+        }
+
+        let connected = 0
+        let reconnecting = 0
+        peerStates.forEach((peerState) => {
+          if (peerState === 'connected') connected++
+          if (peerState === 'reconnecting') reconnecting++
+        })
+        setConnectedClients(connected)
+        setReconnectingClients(reconnecting)
+        setConnectionStatus(connected > 0 ? 'connected' : reconnecting > 0 ? 'reconnecting' : 'waiting')
+      })
+
+      webrtcManagerRef.current.setOnRecordingChange(setRecordingViewers)
+
+      // Viewers' annotations show on the preview and over the shared screens
+      webrtcManagerRef.current.setOnAnnotation((clientId, message) => {
+        annotationBoardRef.current.apply(clientId, message)
+        setAnnotationVersion((version) => version + 1)
+        window.electronAPI.forwardAnnotation(clientId, message).catch((error) => {
+          console.error('Error showing annotation:', error)
+        })
+      })
+
+      webrtcManagerRef.current.setOnChat((message) => {
+        setChatMessages((messages) => [...messages, message])
+      })
+
+      // Dropped unless the host accepts clipboard content from viewers
+      webrtcManagerRef.current.setOnClipboard((_clientId, content) => {
+        if (!clipboardFromViewersRef.current || !clipboardWatcherRef.current) return
+        clipboardWatcherRef.current.write(content).then((written) => {
+          setClipboardNotice(written ? '' : 'Clipboard content from a viewer could not be pasted here.')
+        })
+      })
+
+      webrtcManagerRef.current.setOnStatsUpdate((clientId, stats) => {
+        setViewerStats((current) => ({ ...current, [clientId]: stats }))
+      })
+
+      webrtcManagerRef.current.setOnError((message) => {
+        setErrorMessage(message)
+      })
+
+      webrtcManagerRef.current.setOnSignalingStateChange((state) => {
+        setReconnectNotice(state === 'reconnecting' ? 'Connection to the signaling server lost. Reconnecting...' : '')
+        if (state === 'disconnected') {
+          setErrorMessage('Lost connection to the signaling server. Viewers already connected can keep watching, but nobody new can join.')
         }
       })
 
-      // Start WebRTC host session
-      await webrtcManagerRef.current.startHost(sessionId, stream)
+      // Queue join requests for the host to accept or deny. After a resume
+      // the server repeats requests the host may already be showing.
+      webrtcManagerRef.current.setOnJoinRequest((request) => {
+        setJoinRequests((requests) => requests.filter((current) => current.clientId !== request.clientId).concat(request))
+      })
+      webrtcManagerRef.current.setOnJoinRequestCancelled((clientId) => {
+        setJoinRequests((requests) => requests.filter((request) => request.clientId !== clientId))
+      })
+
+      // Forward viewer input to the main process, which drops it unless
+      // control is allowed
+      webrtcManagerRef.current.setOnRemoteInput((_clientId, event) => {
+        window.electronAPI.injectInput(inputDisplayId('displayId' in event ? event.displayId : undefined), event)
+      })
+
+      // Start WebRTC host session; the server assigns the session ID
+      const assignedSessionId = await webrtcManagerRef.current.startHost(shared, { password })
+      setSessionId(assignedSessionId)
+      setChatSessionId(assignedSessionId)
       
-      console.log('Screen sharing started with session ID:', sessionId)
+      console.log('Screen sharing started with session ID:', assignedSessionId)
       
     } catch (error) {
       console.error('Error starting screen sharing:', error)
-      setIsSharing(false)
-      setConnectionStatus('disconnected')
+      stopSharing()
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to start screen sharing')
     }
   }
 
@@ -73,13 +407,32 @@ export default function HostPage() {
     setIsSharing(false)
     setConnectionStatus('disconnected')
     setConnectedClients(0)
+    setReconnectingClients(0)
+    setJoinRequests([])
+    setReconnectNotice('')
+    setSessionId('')
+    setInvite(null)
+    setSourceNames([])
+    setViewerStats({})
+    setClipboardNotice('')
+    setRecordingViewers([])
+    peerStatesRef.current.clear()
+    recorderRef.current?.stop()
+    annotationBoardRef.current.clear()
+    setAnnotationVersion((version) => version + 1)
+    window.electronAPI.closeAnnotationOverlays()
     
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream
-      stream.getTracks().forEach(track => track.stop())
+    stopStreams(sharedStreamsRef.current)
+    sharedStreamsRef.current = []
+    stopAudio()
+    if (videoRef.current) {
       videoRef.current.srcObject = null
     }
 
+    fileTransferManagerRef.current?.dispose()
+    fileTransferManagerRef.current = null
+    setFileTransfers([])
+
     // Disconnect WebRTC
     if (webrtcManagerRef.current) {
       webrtcManagerRef.current.disconnect()
@@ -87,10 +440,94 @@ export default function HostPage() {
     }
   }
 
+  // Records the first shared screen, with system audio if it is shared.
+  // Switching sources ends the recording.
+  const startRecording = async () => {
+    const shared = sharedStreamsRef.current[0]
+    if (!shared || !recorderRef.current) return
+
+    try {
+      setErrorMessage('')
+      const audio = audioStreamRef.current
+      const tracks = shared.stream.getVideoTracks().concat(audio ? audio.getAudioTracks() : [])
+      await recorderRef.current.start(new MediaStream(tracks), recordingFileName(sessionId))
+    } catch (error) {
+      console.error('Error starting recording:', error)
+      setErrorMessage('Failed to start recording. Check the recording folder in settings.')
+    }
+  }
+
+  // Clears annotations here, on the overlays and for every viewer
+  const clearAnnotations = () => {
+    annotationBoardRef.current.clear()
+    setAnnotationVersion((version) => version + 1)
+    webrtcManagerRef.current?.sendAnnotation({ type: 'clear' })
+    window.electronAPI.forwardAnnotation('host', { type: 'clear' }).catch((error) => {
+      console.error('Error clearing annotations:', error)
+    })
+  }
+
+  const sendChat = (text: string) => {
+    if (!webrtcManagerRef.current) return
+    try {
+      const message = webrtcManagerRef.current.sendChat(text)
+      setChatMessages((messages) => [...messages, message])
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to send the message')
+    }
+  }
+
+  // The transcript outlives the session until the next one starts
+  const saveTranscript = async () => {
+    try {
+      await window.electronAPI.saveTextFile(transcriptFileName(chatSessionId), formatTranscript(chatSessionId, chatMessages))
+    } catch (error) {
+      console.error('Error saving chat transcript:', error)
+      setErrorMessage('Failed to save the chat transcript')
+    }
+  }
+
+  const sendFiles = (files: FileList | null) => {
+    if (!files || !fileTransferManagerRef.current) return
+    Array.from(files).forEach((file) => {
+      if (fileTransferManagerRef.current!.sendFile(file) === 0) {
+        setErrorMessage('No viewer is connected to send files to.')
+      }
+    })
+  }
+
+  const respondToJoinRequest = (clientId: string, accepted: boolean) => {
+    webrtcManagerRef.current?.respondToJoinRequest(clientId, accepted)
+    setJoinRequests((requests) => requests.filter((request) => request.clientId !== clientId))
+  }
+
   const copySessionId = () => {
     navigator.clipboard.writeText(sessionId)
   }
 
+  const createInvite = async () => {
+    if (!webrtcManagerRef.current) return
+
+    try {
+      setIsCreatingInvite(true)
+      setErrorMessage('')
+      setInvite(await webrtcManagerRef.current.createInvite({
+        singleUse: inviteSingleUse,
+        ttlSeconds: inviteExpirySeconds || undefined
+      }))
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to create an invite link')
+    } finally {
+      setIsCreatingInvite(false)
+    }
+  }
+
+  const inviteLink = invite ? buildInviteLink(sessionId, invite.token) : ''
+
+  const copyInviteLink = () => {
+    navigator.clipboard.writeText(inviteLink)
+  }
+
   return (
     <React.Fragment>
       <Head>
@@ -122,11 +559,12 @@ export default function HostPage() {
                 </label>
                 <div className="flex items-center space-x-3">
                   <div className="flex-1 bg-gray-50 border border-gray-300 rounded-lg px-4 py-3 font-mono text-lg font-semibold text-gray-800">
-                    {sessionId}
+                    {sessionId || <span className="text-gray-400 font-sans text-base font-normal">Assigned when you start sharing</span>}
                   </div>
                   <button
                     onClick={copySessionId}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors duration-200"
+                    disabled={!sessionId}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-4 py-3 rounded-lg transition-colors duration-200"
                     title="Copy Session ID"
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -135,7 +573,88 @@ export default function HostPage() {
                   </button>
                 </div>
                 <p className="text-sm text-gray-600 mt-2">
-                  Share this ID with the person you want to connect with
+                  {invite
+                    ? 'Viewers now need an invite link; the ID alone no longer lets anyone join'
+                    : 'Share this ID with the person you want to connect with'}
+                </p>
+              </div>
+
+              {/* Invite Link */}
+              {isSharing && sessionId && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Invite Link
+                  </label>
+                  <div className="flex items-center space-x-4 mb-3">
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={inviteSingleUse}
+                        onChange={(e) => setInviteSingleUse(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 rounded"
+                      />
+                      <span className="text-sm text-gray-700">Single use</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <span>Expires after</span>
+                      <select
+                        value={inviteExpirySeconds}
+                        onChange={(e) => setInviteExpirySeconds(parseInt(e.target.value, 10))}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-black"
+                      >
+                        {INVITE_EXPIRY_OPTIONS.map((option) => (
+                          <option key={option.seconds} value={option.seconds}>{option.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      onClick={createInvite}
+                      disabled={isCreatingInvite}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 font-medium text-sm"
+                    >
+                      {invite ? 'New link' : 'Create link'}
+                    </button>
+                  </div>
+                  {invite && (
+                    <React.Fragment>
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1 bg-gray-50 border border-gray-300 rounded-lg px-4 py-3 font-mono text-sm text-gray-800 break-all">
+                          {inviteLink}
+                        </div>
+                        <button
+                          onClick={copyInviteLink}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors duration-200"
+                          title="Copy Invite Link"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-2">
+                        {invite.singleUse ? 'Works once' : 'Works for anyone you share it with'}
+                        {invite.expiresAt ? ` until ${invite.expiresAt.toLocaleTimeString()}` : ''}
+                      </p>
+                    </React.Fragment>
+                  )}
+                </div>
+              )}
+
+              {/* Session Password */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Session Password (optional)
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Leave empty to allow anyone with the ID"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                  disabled={isSharing}
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Viewers will need this password to join
                 </p>
               </div>
 
@@ -147,11 +666,12 @@ export default function HostPage() {
                 <div className="flex items-center space-x-3 text-black">
                   <div className={`w-3 h-3 rounded-full ${
                     connectionStatus === 'connected' ? 'bg-green-500' :
-                    connectionStatus === 'waiting' ? 'bg-yellow-500' : 'bg-red-500'
+                    connectionStatus === 'waiting' || connectionStatus === 'reconnecting' ? 'bg-yellow-500' : 'bg-red-500'
                   }`}></div>
                   <span className="font-medium text-black">
                     {connectionStatus === 'connected' ? 'Connected' :
-                     connectionStatus === 'waiting' ? 'Waiting for connection' : 'Disconnected'}
+                     connectionStatus === 'waiting' ? 'Waiting for connection' :
+                     connectionStatus === 'reconnecting' ? 'Reconnecting...' : 'Disconnected'}
                   </span>
                 </div>
                 {connectionStatus === 'connected' && (
@@ -159,13 +679,135 @@ export default function HostPage() {
                     {connectedClients} client{connectedClients !== 1 ? 's' : ''} connected
                   </p>
                 )}
+                {reconnectingClients > 0 && (
+                  <p className="text-sm text-yellow-700 mt-1">
+                    Recovering the connection to {reconnectingClients} client{reconnectingClients !== 1 ? 's' : ''}
+                  </p>
+                )}
+                {recordingViewers.length > 0 && (
+                  <p className="flex items-center space-x-2 text-sm text-red-700 font-medium mt-1">
+                    <span className="w-2 h-2 bg-red-600 rounded-full animate-pulse"></span>
+                    <span>
+                      Recording this session: {recordingViewers.map((clientId) => webrtcManagerRef.current?.getViewerName(clientId) || clientId).join(', ')}
+                    </span>
+                  </p>
+                )}
+              </div>
+
+              {/* Reconnect Notice */}
+              {reconnectNotice && (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <svg className="animate-spin w-5 h-5 text-yellow-600" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    <span className="text-yellow-800 font-medium">{reconnectNotice}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Error Message */}
+              {errorMessage && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span className="text-red-700 font-medium">{errorMessage}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Stream Quality */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Stream Quality
+                </label>
+                <select
+                  value={qualityMode}
+                  onChange={(e) => changeQuality(e.target.value as QualityMode)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg text-black"
+                >
+                  {(Object.keys(QUALITY_MODE_LABELS) as QualityMode[]).map((mode) => (
+                    <option key={mode} value={mode}>{QUALITY_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600 mt-2">
+                  {qualityMode === 'auto'
+                    ? 'Adjusts the bitrate for each viewer based on packet loss and latency'
+                    : 'Text clarity suits documents and code, motion suits video and games'}
+                </p>
+              </div>
+
+              {/* System Audio */}
+              <div className="mb-6">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={shareAudio}
+                    onChange={(e) => toggleAudio(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Include system audio</span>
+                </label>
+                <p className={`text-sm mt-2 ${audioNotice ? 'text-yellow-700' : 'text-gray-600'}`}>
+                  {audioNotice || 'Viewers hear everything this computer plays'}
+                </p>
+              </div>
+
+              {/* Clipboard */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Clipboard
+                </label>
+                <label className="flex items-center space-x-3 cursor-pointer mb-2">
+                  <input
+                    type="checkbox"
+                    checked={clipboardToViewers}
+                    onChange={(e) => setClipboardToViewers(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Send what I copy to viewers</span>
+                </label>
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={clipboardFromViewers}
+                    onChange={(e) => setClipboardFromViewers(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Let viewers copy to my clipboard</span>
+                </label>
+                <p className={`text-sm mt-2 ${clipboardNotice ? 'text-yellow-700' : 'text-gray-600'}`}>
+                  {clipboardNotice || `Text and images up to ${MAX_CLIPBOARD_BYTES / 1024} KB are synced`}
+                </p>
+              </div>
+
+              {/* Remote Control */}
+              <div className="mb-6">
+                <label className={`flex items-center space-x-3 ${controlSupported ? 'cursor-pointer' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={allowControl}
+                    disabled={!controlSupported}
+                    onChange={(e) => setAllowControl(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Allow viewers to control this computer</span>
+                </label>
+                <p className="text-sm text-gray-600 mt-2">
+                  {controlSupported
+                    ? 'Mouse and keyboard input from viewers is ignored while this is off'
+                    : 'Remote control is not available on this computer. Input from viewers is ignored.'}
+                </p>
               </div>
 
               {/* Action Buttons */}
               <div className="space-y-4">
                 {!isSharing ? (
                   <button
-                    onClick={startSharing}
+                    onClick={() => setShowSourcePicker(true)}
                     className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-3"
                   >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -174,31 +816,62 @@ export default function HostPage() {
                     <span>Start Sharing</span>
                   </button>
                 ) : (
-                  <button
-                    onClick={stopSharing}
-                    className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-3"
-                  >
-                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                    <span>Stop Sharing</span>
-                  </button>
+                  <React.Fragment>
+                    <button
+                      onClick={() => setShowSourcePicker(true)}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-3"
+                    >
+                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                      </svg>
+                      <span>Switch Source</span>
+                    </button>
+                    <button
+                      onClick={stopSharing}
+                      className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-3"
+                    >
+                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                      <span>Stop Sharing</span>
+                    </button>
+                  </React.Fragment>
                 )}
               </div>
             </div>
 
             {/* Right Panel - Preview */}
             <div className="bg-white rounded-2xl shadow-xl p-8">
-              <h2 className="text-2xl font-semibold text-gray-800 mb-6">Screen Preview</h2>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold text-gray-800">Screen Preview</h2>
+                {isSharing && (
+                  <button
+                    onClick={clearAnnotations}
+                    className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+                  >
+                    Clear Annotations
+                  </button>
+                )}
+              </div>
               
-              <div className="bg-gray-100 rounded-lg overflow-hidden aspect-video flex items-center justify-center">
+              <div className="relative bg-gray-100 rounded-lg overflow-hidden aspect-video flex items-center justify-center">
                 {isSharing ? (
-                  <video
-                    ref={videoRef}
-                    autoPlay
-                    muted
-                    className="w-full h-full object-contain"
-                  />
+                  <React.Fragment>
+                    <video
+                      ref={videoRef}
+                      autoPlay
+                      muted
+                      className="w-full h-full object-contain"
+                    />
+                    {/* Viewers' annotations on the previewed screen */}
+                    <AnnotationCanvas
+                      board={annotationBoardRef.current}
+                      displayId={sharedStreamsRef.current[0]?.display?.id || null}
+                      version={annotationVersion}
+                      videoRef={videoRef}
+                      className="absolute inset-0 w-full h-full pointer-events-none"
+                    />
+                  </React.Fragment>
                 ) : (
                   <div className="text-center text-gray-500">
                     <svg className="w-16 h-16 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -209,10 +882,152 @@ export default function HostPage() {
                   </div>
                 )}
               </div>
+              {sourceNames.length > 0 && (
+                <p className="text-sm text-gray-600 mt-3 truncate">
+                  Sharing: {sourceNames.join(', ')}
+                  {sourceNames.length > 1 && ' (preview shows the first)'}
+                </p>
+              )}
+
+              {/* Recording */}
+              {(isSharing || recordingStatus) && (
+                <div className="mt-4">
+                  <RecordingControls
+                    status={recordingStatus}
+                    disabled={!isSharing}
+                    onStart={startRecording}
+                    onStop={() => recorderRef.current?.stop()}
+                    onDismiss={() => recorderRef.current?.dismiss()}
+                  />
+                </div>
+              )}
+
+              {/* Viewer Statistics */}
+              {Object.keys(viewerStats).length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-3">Viewers</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-700">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-gray-600">
+                          <th className="py-2 pr-4 font-medium">Viewer</th>
+                          <th className="py-2 pr-4 font-medium">Sending</th>
+                          <th className="py-2 pr-4 font-medium">Video</th>
+                          <th className="py-2 pr-4 font-medium">RTT</th>
+                          <th className="py-2 pr-4 font-medium">Loss</th>
+                          <th className="py-2 pr-4 font-medium">Jitter</th>
+                          <th className="py-2 font-medium">Route</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {Object.keys(viewerStats).map((clientId) => {
+                          const stats = viewerStats[clientId]
+                          return (
+                            <tr key={clientId} className="border-b border-gray-100">
+                              <td className="py-2 pr-4 truncate max-w-xs">
+                                {webrtcManagerRef.current?.getViewerName(clientId) || clientId}
+                              </td>
+                              <td className="py-2 pr-4">{formatBitrate(stats.outboundBitrate)}</td>
+                              <td className="py-2 pr-4">{formatResolution(stats)}</td>
+                              <td className="py-2 pr-4">{formatMilliseconds(stats.roundTripTime)}</td>
+                              <td className="py-2 pr-4">{formatPacketLoss(stats.packetLoss)}</td>
+                              <td className="py-2 pr-4">{formatMilliseconds(stats.jitter)}</td>
+                              <td className="py-2">{formatCandidateType(stats)}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+              {/* File Transfers */}
+              {isSharing && (
+                <div className="mt-6">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-gray-800">Files</h3>
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={connectedClients === 0}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+                    >
+                      Send File
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        sendFiles(e.target.files)
+                        e.target.value = ''
+                      }}
+                    />
+                  </div>
+                  {fileTransfers.length > 0 ? (
+                    <FileTransferList
+                      transfers={fileTransfers}
+                      peerName={(clientId) => webrtcManagerRef.current?.getViewerName(clientId) || clientId}
+                      onAccept={(id) => fileTransferManagerRef.current?.accept(id)}
+                      onDecline={(id) => fileTransferManagerRef.current?.decline(id)}
+                      onCancel={(id) => fileTransferManagerRef.current?.cancel(id)}
+                      onDismiss={(id) => fileTransferManagerRef.current?.dismiss(id)}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-600">Files you send go to every connected viewer. Viewers can drop files onto their screen to send them to you.</p>
+                  )}
+                </div>
+              )}
+              {/* Chat */}
+              {(isSharing || chatMessages.length > 0) && (
+                <ChatPanel
+                  messages={chatMessages}
+                  maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  onSend={sendChat}
+                  onSaveTranscript={saveTranscript}
+                />
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {/* Source Picker */}
+      {showSourcePicker && (
+        <SourcePicker
+          remembered={rememberedSources}
+          confirmLabel={isSharing ? 'Switch' : 'Share'}
+          onSelect={handleSourcesSelected}
+          onCancel={() => setShowSourcePicker(false)}
+        />
+      )}
+
+      {/* Join Request Dialog */}
+      {joinRequests.length > 0 && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">Viewer wants to join</h2>
+            <p className="text-gray-600 mb-6">
+              <span className="font-semibold text-gray-800">{joinRequests[0].displayName}</span> is asking to view your screen.
+              {joinRequests.length > 1 && ` ${joinRequests.length - 1} more waiting.`}
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => respondToJoinRequest(joinRequests[0].clientId, false)}
+                className="flex-1 bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200"
+              >
+                Deny
+              </button>
+              <button
+                onClick={() => respondToJoinRequest(joinRequests[0].clientId, true)}
+                className="flex-1 bg-green-600 hover:bg-green-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200"
+              >
+                Accept
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </React.Fragment>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from 'react'
+import Head from 'next/head'
+import Link from 'next/link'
+import type { AppSettings, IceServerSetting } from '../../main/helpers/settings'
+
+// Settings the built-in server only reads when DeskViewer starts
+const RESTART_SETTINGS: Array<keyof AppSettings> = ['listenPort', 'tlsEnabled', 'tlsCertPath', 'tlsKeyPath']
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<AppSettings | null>(null)
+  const [startupSettings, setStartupSettings] = useState<AppSettings | null>(null)
+  const [fingerprint, setFingerprint] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState('')
+  const [savedMessage, setSavedMessage] = useState('')
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then((loaded) => {
+      setSettings(loaded)
+      setStartupSettings(loaded)
+    })
+    window.electronAPI.getCertificateFingerprint().then(setFingerprint)
+  }, [])
+
+  const update = (changes: Partial<AppSettings>) => {
+    setSettings((current) => current && { ...current, ...changes })
+    setSavedMessage('')
+  }
+
+  const updateIceServer = (index: number, changes: Partial<IceServerSetting>) => {
+    if (!settings) return
+    update({
+      iceServers: settings.iceServers.map((server, i) => (i === index ? { ...server, ...changes } : server))
+    })
+  }
+
+  const addIceServer = () => {
+    if (!settings) return
+    update({ iceServers: [...settings.iceServers, { urls: '' }] })
+  }
+
+  const removeIceServer = (index: number) => {
+    if (!settings) return
+    update({ iceServers: settings.iceServers.filter((_server, i) => i !== index) })
+  }
+
+  const save = async () => {
+    if (!settings) return
+
+    try {
+      setErrorMessage('')
+      const saved = await window.electronAPI.saveSettings(settings)
+      setSettings(saved)
+      const restartRequired = startupSettings && RESTART_SETTINGS.some((key) => saved[key] !== startupSettings[key])
+      setSavedMessage(restartRequired
+        ? 'Settings saved. Restart DeskViewer to apply the built-in server changes.'
+        : 'Settings saved.')
+    } catch (error) {
+      // Errors thrown in the main process arrive wrapped in an IPC message
+      const message = error instanceof Error ? error.message : String(error)
+      setErrorMessage(message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''))
+    }
+  }
+
+  return (
+    <React.Fragment>
+      <Head>
+        <title>Settings - DeskViewer</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-8">
+            <Link href="/home" className="text-blue-600 hover:text-blue-800 font-medium flex items-center space-x-2">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              <span>Back to Home</span>
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800">Settings</h1>
+          </div>
+
+          {!settings ? (
+            <p className="text-gray-600">Loading settings...</p>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-xl p-8 max-w-3xl mx-auto">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-6">Signaling</h2>
+
+              {/* Signaling URL */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Signaling Server URL
+                </label>
+                <input
+                  type="text"
+                  value={settings.signalingUrl}
+                  onChange={(e) => update({ signalingUrl: e.target.value.trim() })}
+                  placeholder="wss://localhost:8080"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Hosts and viewers must use the same signaling server
+                </p>
+              </div>
+
+              {/* Listen Port */}
+              <div className="mb-8">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Built-in Server Listen Port
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={65535}
+                  value={settings.listenPort}
+                  onChange={(e) => update({ listenPort: parseInt(e.target.value, 10) || 0 })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Takes effect the next time DeskViewer starts
+                </p>
+              </div>
+
+              <h2 className="text-2xl font-semibold text-gray-800 mb-6">Security</h2>
+
+              {/* TLS */}
+              <div className="mb-6">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.tlsEnabled}
+                    onChange={(e) => update({ tlsEnabled: e.target.checked })}
+                    className="w-5 h-5 text-blue-600 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Serve signaling over wss:// (TLS)</span>
+                </label>
+                <p className="text-sm text-gray-600 mt-2">
+                  Use a wss:// signaling URL while this is on. Takes effect the next time DeskViewer starts.
+                </p>
+              </div>
+
+              {settings.tlsEnabled && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Certificate and Private Key (optional)
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={settings.tlsCertPath}
+                      onChange={(e) => update({ tlsCertPath: e.target.value })}
+                      placeholder="/path/to/cert.pem"
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                    />
+                    <input
+                      type="text"
+                      value={settings.tlsKeyPath}
+                      onChange={(e) => update({ tlsKeyPath: e.target.value })}
+                      placeholder="/path/to/key.pem"
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    Leave empty to use the self-signed certificate DeskViewer generated for this computer
+                  </p>
+                </div>
+              )}
+
+              {/* Certificate Fingerprint */}
+              {fingerprint && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    This Computer&apos;s Certificate Fingerprint
+                  </label>
+                  <div className="flex items-center space-x-3">
+                    <div className="flex-1 bg-gray-50 border border-gray-300 rounded-lg px-4 py-3 font-mono text-xs text-gray-800 break-all">
+                      {fingerprint}
+                    </div>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(fingerprint)}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors duration-200"
+                      title="Copy Fingerprint"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    Viewers who use this computer as their signaling server pin this fingerprint
+                  </p>
+                </div>
+              )}
+
+              {/* Pinned Fingerprint */}
+              <div className="mb-8">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pinned Server Fingerprint
+                </label>
+                <input
+                  type="text"
+                  value={settings.pinnedFingerprint}
+                  onChange={(e) => update({ pinnedFingerprint: e.target.value.trim() })}
+                  placeholder="AB:CD:EF:..."
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black font-mono text-sm"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Required to connect to a signaling server with a self-signed certificate. Ask its owner for the fingerprint
+                  shown in their settings; connections to a server presenting any other certificate are refused.
+                </p>
+              </div>
+
+              <h2 className="text-2xl font-semibold text-gray-800 mb-2">ICE Servers</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                STUN servers help peers find each other; TURN servers relay media when a direct path is blocked
+              </p>
+
+              <div className="space-y-4 mb-6">
+                {settings.iceServers.map((server, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-3 mb-3">
+                      <input
+                        type="text"
+                        value={server.urls}
+                        onChange={(e) => updateIceServer(index, { urls: e.target.value })}
+                        placeholder="stun:stun.example.com:3478 or turn:turn.example.com:3478"
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                      />
+                      <button
+                        onClick={() => removeIceServer(index)}
+                        className="text-red-600 hover:text-red-800 font-medium px-2"
+                        title="Remove server"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {/^turns?:/.test(server.urls) && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <input
+                          type="text"
+                          value={server.username || ''}
+                          onChange={(e) => updateIceServer(index, { username: e.target.value })}
+                          placeholder="Username"
+                          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                        />
+                        <input
+                          type="password"
+                          value={server.credential || ''}
+                          onChange={(e) => updateIceServer(index, { credential: e.target.value })}
+                          placeholder="Credential"
+                          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={addIceServer}
+                className="text-blue-600 hover:text-blue-800 font-medium mb-8"
+              >
+                + Add ICE server
+              </button>
+
+              <h2 className="text-2xl font-semibold text-gray-800 mb-6">Recording</h2>
+
+              {/* Recording Folder */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Recording Folder
+                </label>
+                <input
+                  type="text"
+                  value={settings.recordingFolder}
+                  onChange={(e) => update({ recordingFolder: e.target.value })}
+                  placeholder="/path/to/recordings"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Session recordings are saved here as WebM files. Leave empty to use your Videos folder.
+                </p>
+              </div>
+
+              {/* Snapshot Folder */}
+              <div className="mb-8">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Snapshot Folder
+                </label>
+                <input
+                  type="text"
+                  value={settings.snapshotFolder}
+                  onChange={(e) => update({ snapshotFolder: e.target.value })}
+                  placeholder="/path/to/snapshots"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Snapshots of the remote screen are saved here as PNG files. Leave empty to use your Pictures folder.
+                </p>
+              </div>
+
+              {/* Error Message */}
+              {errorMessage && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <span className="text-red-700 font-medium">{errorMessage}</span>
+                </div>
+              )}
+
+              {savedMessage && (
+                <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <span className="text-green-700 font-medium">{savedMessage}</span>
+                </div>
+              )}
+
+              <button
+                onClick={save}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200"
+              >
+                Save Settings
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </React.Fragment>
+  )
+}
@@ -1,7 +1,47 @@
 import { IpcHandler } from '../main/preload'
+import type { RemoteInputEvent } from '../main/helpers/input-injector'
+import type { AppSettings } from '../main/helpers/settings'
+import type { CaptureSource } from '../main/helpers/capture-sources'
+import type { ClipboardContent } from '../main/helpers/clipboard'
+import type { FileSave } from '../main/helpers/file-receiver'
+import type { Recording } from '../main/helpers/recorder'
+import type { AnnotationMessage } from '../main/helpers/annotation'
 
 export interface ElectronAPI {
-  getDisplayMedia(): Promise<any[]>
+  getDisplayMedia(): Promise<CaptureSource[]>
+  getSettings(): Promise<AppSettings>
+  saveSettings(settings: Partial<AppSettings>): Promise<AppSettings>
+  // null when the built-in server is not serving wss://
+  getCertificateFingerprint(): Promise<string | null>
+  // false where the native input addon could not load
+  isRemoteControlSupported(): Promise<boolean>
+  setRemoteControlEnabled(enabled: boolean): Promise<boolean>
+  injectInput(displayId: string, event: RemoteInputEvent): Promise<boolean>
+  // null when the clipboard holds no text or image
+  readClipboard(): Promise<ClipboardContent | null>
+  // false when the content is invalid or over the size limit
+  writeClipboard(content: ClipboardContent): Promise<boolean>
+  // Asks where to save an incoming file; null when the user cancels
+  startFileSave(name: string): Promise<FileSave | null>
+  // data is base64
+  writeFileChunk(saveId: string, offset: number, data: string): Promise<void>
+  // Resolves with the saved file's path
+  finishFileSave(saveId: string, size: number): Promise<string>
+  cancelFileSave(saveId: string): Promise<void>
+  // Asks where to save; resolves with the path, or null when cancelled
+  saveTextFile(defaultName: string, content: string): Promise<string | null>
+  // Creates a new file in the configured recording folder
+  startRecording(name: string): Promise<Recording>
+  writeRecordingChunk(recordingId: string, data: Uint8Array): Promise<void>
+  // Resolves with the finished file's path and size in bytes
+  stopRecording(recordingId: string): Promise<{ path: string; size: number }>
+  // data is PNG. Resolves with the saved file's path.
+  saveSnapshot(name: string, data: Uint8Array, copyToClipboard: boolean): Promise<string>
+  // false unless the file is a snapshot saved in this run
+  openSnapshot(file: string): Promise<boolean>
+  // Shows a viewer's annotation on the host's screen; author names the viewer
+  forwardAnnotation(author: string, message: AnnotationMessage): Promise<boolean>
+  closeAnnotationOverlays(): Promise<void>
 }
 
 declare global {
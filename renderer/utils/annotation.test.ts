@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AnnotationPoint,
+  AnnotationStroke,
+  LASER_FADE_MS,
+  MAX_ANNOTATION_POINTS,
+  MAX_ANNOTATION_STROKES,
+} from '../../main/helpers/annotation'
+import { AnnotationBoard } from './annotation'
+
+const DISPLAY = 'screen:0'
+
+const points = (count: number, from: number = 0): AnnotationPoint[] =>
+  Array.from({ length: count }, (_value, i) => ({ x: ((from + i) % 100) / 100, y: 0.5 }))
+
+const stroke = (id: string, changes: Partial<AnnotationStroke> = {}): AnnotationStroke => ({
+  id,
+  tool: 'freehand',
+  color: '#ef4444',
+  displayId: DISPLAY,
+  points: points(1),
+  ...changes,
+})
+
+const ids = (board: AnnotationBoard, now?: number) => board.getStrokes(DISPLAY, now).map((current) => current.id)
+
+describe('AnnotationBoard', () => {
+  it('drops the oldest stroke of an author who goes past the cap', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-2', { type: 'begin', stroke: stroke('theirs') })
+    for (let i = 0; i <= MAX_ANNOTATION_STROKES; i++) {
+      board.apply('viewer-1', { type: 'begin', stroke: stroke(`s${i}`) })
+    }
+
+    const strokes = board.getStrokes(DISPLAY)
+    const mine = strokes.filter((current) => current.author === 'viewer-1')
+    expect(mine).toHaveLength(MAX_ANNOTATION_STROKES)
+    expect(mine[0].id).toBe('s1')
+    expect(mine[mine.length - 1].id).toBe(`s${MAX_ANNOTATION_STROKES}`)
+    // Other authors' strokes do not count towards the cap
+    expect(strokes[0]).toMatchObject({ id: 'theirs', author: 'viewer-2' })
+  })
+
+  it('starts a reused stroke id over as the newest stroke', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a') })
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('b') })
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a', { tool: 'arrow', points: points(2, 10) }) })
+
+    const strokes = board.getStrokes(DISPLAY)
+    expect(strokes.map((current) => current.id)).toEqual(['b', 'a'])
+    expect(strokes[1]).toMatchObject({ tool: 'arrow', points: points(2, 10) })
+  })
+
+  it('does not evict another stroke when an id is reused at the cap', () => {
+    const board = new AnnotationBoard()
+    for (let i = 0; i < MAX_ANNOTATION_STROKES; i++) {
+      board.apply('viewer-1', { type: 'begin', stroke: stroke(`s${i}`) })
+    }
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('s5') })
+
+    const strokeIds = ids(board)
+    expect(strokeIds).toHaveLength(MAX_ANNOTATION_STROKES)
+    expect(strokeIds[0]).toBe('s0')
+    expect(strokeIds[strokeIds.length - 1]).toBe('s5')
+  })
+
+  it('keeps stroke ids apart by author', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a') })
+    board.apply('viewer-2', { type: 'begin', stroke: stroke('a') })
+    board.apply('viewer-2', { type: 'extend', id: 'a', points: points(3, 1) })
+
+    const strokes = board.getStrokes(DISPLAY)
+    expect(strokes.map((current) => current.points.length)).toEqual([1, 4])
+  })
+
+  it('caps a stroke at the most points a stroke may hold', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a', { points: points(MAX_ANNOTATION_POINTS - 1) }) })
+    board.apply('viewer-1', { type: 'extend', id: 'a', points: points(10, 50) })
+
+    const [kept] = board.getStrokes(DISPLAY)
+    expect(kept.points).toHaveLength(MAX_ANNOTATION_POINTS)
+    expect(kept.points[MAX_ANNOTATION_POINTS - 1]).toEqual(points(1, 50)[0])
+  })
+
+  it('trims a laser to the tail of its trail', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('laser', { tool: 'laser', points: points(5) }) })
+    board.apply('viewer-1', { type: 'extend', id: 'laser', points: points(20, 5) })
+
+    const [laser] = board.getStrokes(DISPLAY)
+    expect(laser.points).toEqual(points(12, 13))
+  })
+
+  it('drops a laser once it has faded, unless it moved since', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('pen') }, 1000)
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('still', { tool: 'laser' }) }, 1000)
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('moving', { tool: 'laser' }) }, 1000)
+    board.apply('viewer-1', { type: 'extend', id: 'moving', points: points(1, 1) }, 1500)
+
+    expect(ids(board, 1000 + LASER_FADE_MS)).toEqual(['pen', 'still', 'moving'])
+    expect(ids(board, 1000 + LASER_FADE_MS + 1)).toEqual(['pen', 'moving'])
+    expect(ids(board, 1500 + LASER_FADE_MS + 1)).toEqual(['pen'])
+
+    // A faded laser is gone for good, so extending it does nothing
+    board.apply('viewer-1', { type: 'extend', id: 'still', points: points(1) }, 5000)
+    expect(ids(board, 5000)).toEqual(['pen'])
+  })
+
+  it('only returns strokes on the display asked for', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a') })
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('b', { displayId: 'screen:1' }) })
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('c', { displayId: null }) })
+
+    expect(ids(board)).toEqual(['a'])
+    expect(board.getStrokes(null).map((current) => current.id)).toEqual(['c'])
+  })
+
+  it('removes every stroke on clear', () => {
+    const board = new AnnotationBoard()
+    board.apply('viewer-1', { type: 'begin', stroke: stroke('a') })
+    board.apply('viewer-2', { type: 'begin', stroke: stroke('b') })
+    board.apply('viewer-2', { type: 'clear' })
+
+    expect(ids(board)).toEqual([])
+  })
+})
@@ -0,0 +1,181 @@
+import {
+  AnnotationMessage,
+  AnnotationStroke,
+  AnnotationTool,
+  LASER_FADE_MS,
+  MAX_ANNOTATION_POINTS,
+  MAX_ANNOTATION_STROKES,
+} from '../../main/helpers/annotation'
+
+export const ANNOTATION_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308']
+
+export const ANNOTATION_TOOL_LABELS: Record<AnnotationTool, string> = {
+  freehand: 'Pen',
+  arrow: 'Arrow',
+  rectangle: 'Rectangle',
+  laser: 'Laser',
+}
+
+const LINE_WIDTH = 4
+const ARROW_HEAD_LENGTH = 18
+const LASER_RADIUS = 8
+// Points of a laser's trail that are drawn behind its tip
+const LASER_TRAIL_POINTS = 12
+
+export interface BoardStroke extends AnnotationStroke {
+  author: string
+  // Local time of the last change, for fading lasers
+  updatedAt: number
+}
+
+export const createStrokeId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`
+
+// Strokes from every author, applied from annotation messages in the order
+// they arrive
+export class AnnotationBoard {
+  private strokes: Map<string, BoardStroke> = new Map()
+
+  public apply(author: string, message: AnnotationMessage, now: number = Date.now()) {
+    switch (message.type) {
+      case 'begin': {
+        // A reused id starts over as the newest stroke
+        const key = `${author}:${message.stroke.id}`
+        this.strokes.delete(key)
+        this.evictOldest(author)
+        this.strokes.set(key, {
+          ...message.stroke,
+          points: message.stroke.points.slice(0, MAX_ANNOTATION_POINTS),
+          author,
+          updatedAt: now,
+        })
+        break
+      }
+
+      case 'extend': {
+        const stroke = this.strokes.get(`${author}:${message.id}`)
+        if (!stroke) return
+        // A laser only needs the tail of its trail
+        const points = stroke.points.concat(message.points)
+        stroke.points = stroke.tool === 'laser' ? points.slice(-LASER_TRAIL_POINTS) : points.slice(0, MAX_ANNOTATION_POINTS)
+        stroke.updatedAt = now
+        break
+      }
+
+      case 'clear':
+        this.strokes.clear()
+        break
+    }
+  }
+
+  // Strokes on one display, oldest first. Lasers that have faded are dropped.
+  public getStrokes(displayId: string | null, now: number = Date.now()): BoardStroke[] {
+    const strokes: BoardStroke[] = []
+    this.strokes.forEach((stroke, key) => {
+      if (stroke.tool === 'laser' && now - stroke.updatedAt > LASER_FADE_MS) {
+        this.strokes.delete(key)
+      } else if (stroke.displayId === displayId) {
+        strokes.push(stroke)
+      }
+    })
+    return strokes
+  }
+
+  public clear() {
+    this.strokes.clear()
+  }
+
+  // Makes room for one more stroke from the author. Strokes are kept in the
+  // order they began, so the first found is the oldest.
+  private evictOldest(author: string) {
+    const keys: string[] = []
+    this.strokes.forEach((stroke, key) => {
+      if (stroke.author === author) keys.push(key)
+    })
+    keys.slice(0, Math.max(0, keys.length - MAX_ANNOTATION_STROKES + 1)).forEach((key) => this.strokes.delete(key))
+  }
+}
+
+// Where a source of the given size appears in a box, letterboxed the way
+// object-contain does it
+export const contentRect = (boxWidth: number, boxHeight: number, sourceWidth: number, sourceHeight: number) => {
+  if (!sourceWidth || !sourceHeight) {
+    return { x: 0, y: 0, width: boxWidth, height: boxHeight }
+  }
+  const scale = Math.min(boxWidth / sourceWidth, boxHeight / sourceHeight)
+  const width = sourceWidth * scale
+  const height = sourceHeight * scale
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height }
+}
+
+// Draws strokes in a rectangle of the canvas, in CSS pixels
+export const drawAnnotations = (
+  context: CanvasRenderingContext2D,
+  strokes: BoardStroke[],
+  area: { x: number; y: number; width: number; height: number },
+  now: number = Date.now()
+) => {
+  const toCanvas = (point: { x: number; y: number }) => ({
+    x: area.x + point.x * area.width,
+    y: area.y + point.y * area.height,
+  })
+
+  strokes.forEach((stroke) => {
+    const points = stroke.points.map(toCanvas)
+    const first = points[0]
+    const last = points[points.length - 1]
+
+    context.save()
+    context.strokeStyle = stroke.color
+    context.fillStyle = stroke.color
+    context.lineWidth = LINE_WIDTH
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+
+    switch (stroke.tool) {
+      case 'freehand':
+        context.beginPath()
+        context.moveTo(first.x, first.y)
+        points.forEach((point) => context.lineTo(point.x, point.y))
+        context.stroke()
+        break
+
+      case 'rectangle':
+        context.strokeRect(first.x, first.y, last.x - first.x, last.y - first.y)
+        break
+
+      case 'arrow': {
+        const angle = Math.atan2(last.y - first.y, last.x - first.x)
+        context.beginPath()
+        context.moveTo(first.x, first.y)
+        context.lineTo(last.x, last.y)
+        context.moveTo(last.x - ARROW_HEAD_LENGTH * Math.cos(angle - Math.PI / 6), last.y - ARROW_HEAD_LENGTH * Math.sin(angle - Math.PI / 6))
+        context.lineTo(last.x, last.y)
+        context.lineTo(last.x - ARROW_HEAD_LENGTH * Math.cos(angle + Math.PI / 6), last.y - ARROW_HEAD_LENGTH * Math.sin(angle + Math.PI / 6))
+        context.stroke()
+        break
+      }
+
+      case 'laser': {
+        // Fades out once the pointer stops moving
+        const alpha = Math.max(0, 1 - (now - stroke.updatedAt) / LASER_FADE_MS)
+        const trail = points.slice(-LASER_TRAIL_POINTS)
+        context.globalAlpha = alpha / 2
+        context.beginPath()
+        context.moveTo(trail[0].x, trail[0].y)
+        trail.forEach((point) => context.lineTo(point.x, point.y))
+        context.stroke()
+        context.globalAlpha = alpha
+        context.beginPath()
+        context.arc(last.x, last.y, LASER_RADIUS, 0, Math.PI * 2)
+        context.fill()
+        break
+      }
+    }
+    context.restore()
+  })
+}
+
+// Whether anything drawn is still fading and needs redrawing
+export const hasLasers = (strokes: BoardStroke[]): boolean =>
+  strokes.some((stroke) => stroke.tool === 'laser')
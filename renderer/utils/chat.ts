@@ -0,0 +1,23 @@
+import type { ChatMessage } from './webrtc'
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value))
+
+// Local time, hours and minutes
+export const formatChatTime = (sentAt: number): string => {
+  const date = new Date(sentAt)
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// A plain-text transcript of one session's chat
+export const formatTranscript = (sessionId: string, messages: ChatMessage[]): string => {
+  const lines = messages.map((message) => {
+    const sentAt = new Date(message.sentAt)
+    const day = `${sentAt.getFullYear()}-${pad(sentAt.getMonth() + 1)}-${pad(sentAt.getDate())}`
+    const name = message.fromSelf ? `${message.senderName} (you)` : message.senderName
+    return `[${day} ${formatChatTime(message.sentAt)}] ${name}: ${message.text}`
+  })
+  return [`DeskViewer chat, session ${sessionId}`, '', ...lines, ''].join('\n')
+}
+
+export const transcriptFileName = (sessionId: string): string =>
+  `deskviewer-chat-${sessionId}-${new Date().toISOString().slice(0, 10)}.txt`
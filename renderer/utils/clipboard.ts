@@ -0,0 +1,55 @@
+import { ClipboardContent, MAX_CLIPBOARD_BYTES, clipboardContentSize, sameClipboardContent } from '../../main/helpers/clipboard'
+
+const POLL_INTERVAL_MS = 1000
+
+export interface ClipboardWatcher {
+  // Write content that came from the other side without echoing it back
+  write(content: ClipboardContent): Promise<boolean>
+  stop(): void
+}
+
+// Electron has no clipboard change event, so the clipboard is polled.
+// Whatever is on it when watching starts is not reported.
+export const watchClipboard = (onChange: (content: ClipboardContent) => void): ClipboardWatcher => {
+  let last: ClipboardContent | null = null
+  let written: ClipboardContent | null = null
+  let started = false
+  let stopped = false
+
+  const poll = async () => {
+    try {
+      const content = await window.electronAPI.readClipboard()
+      if (stopped) return
+      if (started && content && !sameClipboardContent(content, last) && !sameClipboardContent(content, written)) {
+        onChange(content)
+      }
+      last = content
+      started = true
+    } catch (error) {
+      console.error('Error reading clipboard:', error)
+    }
+  }
+
+  poll()
+  const timer = setInterval(poll, POLL_INTERVAL_MS)
+
+  return {
+    write: (content) => {
+      written = content
+      return window.electronAPI.writeClipboard(content)
+    },
+    stop: () => {
+      stopped = true
+      clearInterval(timer)
+    }
+  }
+}
+
+// A message for the user when content is too large to sync, otherwise null
+export const clipboardSizeError = (content: ClipboardContent): string | null => {
+  const size = clipboardContentSize(content)
+  if (size <= MAX_CLIPBOARD_BYTES) return null
+  const kilobytes = (bytes: number) => `${Math.ceil(bytes / 1024)} KB`
+  const what = content.type === 'image' ? 'image' : 'text'
+  return `The copied ${what} is ${kilobytes(size)}, over the ${kilobytes(MAX_CLIPBOARD_BYTES)} clipboard sync limit, so it was not sent.`
+}
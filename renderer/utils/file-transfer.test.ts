@@ -0,0 +1,280 @@
+import { createHash } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FileTransfer, FileTransferManager } from './file-transfer'
+import type { WebRTCManager } from './webrtc'
+
+type Message = Record<string, unknown>
+
+// Stands in for the WebRTCManager on one side of a link. Messages reach the
+// other side on a later tick, as they would over a data channel.
+class FakePeer {
+  public handler?: (peerId: string, payload: unknown) => void
+  public openHandler?: (peerId: string) => void
+  public closedListeners: Array<(peerId: string) => void> = []
+  public other?: FakePeer
+  public open = true
+  // Lets a test change or swallow what this side sends
+  public tamper?: (message: Message) => Message | null
+  public sent: Message[] = []
+
+  constructor(public readonly peerId: string) {}
+
+  public asManager(): WebRTCManager {
+    return {
+      setOnDataMessage: (_label: string, callback: (peerId: string, payload: unknown) => void) => {
+        this.handler = callback
+      },
+      setOnDataChannelOpen: (_label: string, callback: (peerId: string) => void) => {
+        this.openHandler = callback
+      },
+      addPeerClosedListener: (listener: (peerId: string) => void) => {
+        this.closedListeners.push(listener)
+        return () => {
+          this.closedListeners = this.closedListeners.filter((current) => current !== listener)
+        }
+      },
+      getOpenDataPeers: () => (this.open ? [this.other.peerId] : []),
+      waitForDataBuffer: async () => this.open,
+      sendData: (_label: string, payload: unknown) => {
+        if (!this.open) return false
+        let message = JSON.parse(JSON.stringify(payload)) as Message
+        this.sent.push(message)
+        if (this.tamper) message = this.tamper(message)
+        if (message) {
+          setTimeout(() => {
+            if (this.open) this.other.handler?.(this.peerId, message)
+          }, 0)
+        }
+        return true
+      },
+    } as unknown as WebRTCManager
+  }
+}
+
+const link = () => {
+  const host = new FakePeer('host')
+  const viewer = new FakePeer('viewer-1')
+  host.other = viewer
+  viewer.other = host
+  return { host, viewer }
+}
+
+// Both sides tear the connection down, as closePeerConnection does
+const drop = (a: FakePeer, b: FakePeer) => {
+  a.open = false
+  b.open = false
+  a.closedListeners.slice().forEach((listener) => listener(b.peerId))
+  b.closedListeners.slice().forEach((listener) => listener(a.peerId))
+}
+
+// Both sides' channels open again, as after the viewer reconnects
+const reopen = (a: FakePeer, b: FakePeer) => {
+  a.open = true
+  b.open = true
+  a.openHandler?.(b.peerId)
+  b.openHandler?.(a.peerId)
+}
+
+const track = (manager: FileTransferManager) => {
+  const state: { transfers: FileTransfer[] } = { transfers: [] }
+  manager.setOnChange((transfers) => {
+    state.transfers = transfers
+  })
+  return state
+}
+
+const makeFile = (size: number) => {
+  const bytes = new Uint8Array(size)
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31) % 251
+  return { bytes, file: new File([bytes], 'notes.bin') }
+}
+
+let written: Uint8Array
+const electronAPI = {
+  startFileSave: vi.fn(),
+  writeFileChunk: vi.fn(),
+  finishFileSave: vi.fn(),
+  cancelFileSave: vi.fn(),
+}
+
+beforeEach(() => {
+  written = new Uint8Array(0)
+  electronAPI.startFileSave.mockResolvedValue({ saveId: 'save-1', path: '/tmp/notes.bin' })
+  electronAPI.writeFileChunk.mockImplementation(async (_saveId: string, offset: number, data: string) => {
+    const chunk = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+    const next = new Uint8Array(Math.max(written.length, offset + chunk.length))
+    next.set(written)
+    next.set(chunk, offset)
+    written = next
+  })
+  electronAPI.finishFileSave.mockResolvedValue('/tmp/notes.bin')
+  electronAPI.cancelFileSave.mockResolvedValue(undefined)
+  vi.stubGlobal('window', { electronAPI })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.clearAllMocks()
+})
+
+// Offers a file from the host to the viewer and accepts it
+const startTransfer = async (host: FakePeer, viewer: FakePeer, size: number, pauseTimeoutMs?: number) => {
+  const sender = new FileTransferManager(host.asManager(), { pauseTimeoutMs })
+  const receiver = new FileTransferManager(viewer.asManager(), { pauseTimeoutMs })
+  const sending = track(sender)
+  const receiving = track(receiver)
+  const { bytes, file } = makeFile(size)
+
+  expect(sender.sendFile(file)).toBe(1)
+  await vi.waitFor(() => expect(receiving.transfers).toHaveLength(1))
+  await receiver.accept(receiving.transfers[0].id)
+  return { sender, receiver, sending, receiving, bytes }
+}
+
+describe('FileTransferManager', () => {
+  it('sends a file in verified chunks', async () => {
+    const { host, viewer } = link()
+    const { sending, receiving, bytes } = await startTransfer(host, viewer, 40000)
+
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('done'))
+    expect(receiving.transfers[0].status).toBe('done')
+    expect(receiving.transfers[0].savedPath).toBe('/tmp/notes.bin')
+    expect(written).toEqual(bytes)
+    expect(electronAPI.finishFileSave).toHaveBeenCalledWith('save-1', 40000)
+    expect(electronAPI.cancelFileSave).not.toHaveBeenCalled()
+  })
+
+  it('requests a chunk again when it fails its checksum', async () => {
+    const { host, viewer } = link()
+    let corrupted = false
+    host.tamper = (message) => {
+      if (message.type === 'chunk' && message.offset === 16384 && !corrupted) {
+        corrupted = true
+        return { ...message, sha256: '0'.repeat(64) }
+      }
+      return message
+    }
+    const { sending, receiving, bytes } = await startTransfer(host, viewer, 40000)
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('done'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('done'))
+    const requests = viewer.sent.filter((message) => message.type === 'request')
+    expect(requests.map((message) => message.offset)).toEqual([0, 16384])
+    expect(written).toEqual(bytes)
+  })
+
+  it('fails the transfer when a chunk keeps failing its checksum', async () => {
+    const { host, viewer } = link()
+    host.tamper = (message) =>
+      message.type === 'chunk' && message.offset === 0 ? { ...message, sha256: '0'.repeat(64) } : message
+    const { sending, receiving } = await startTransfer(host, viewer, 20000)
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('failed'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('failed'))
+    expect(receiving.transfers[0].error).toBe('Received data kept failing its checksum')
+    expect(electronAPI.writeFileChunk).not.toHaveBeenCalled()
+    expect(electronAPI.cancelFileSave).toHaveBeenCalledWith('save-1')
+  })
+
+  it('resets the checksum retries after each verified chunk', async () => {
+    const { viewer } = link()
+    const receiver = new FileTransferManager(viewer.asManager())
+    const receiving = track(receiver)
+    const { bytes } = makeFile(16384 * 5)
+
+    // Play the sender by hand so every chunk fails its first check: more
+    // failures in all than any one chunk is allowed
+    viewer.handler('host', { type: 'offer', transferId: 't1', name: 'notes.bin', size: bytes.length })
+    await receiver.accept(receiving.transfers[0].id)
+    for (let offset = 0; offset < bytes.length; offset += 16384) {
+      const chunk = bytes.subarray(offset, offset + 16384)
+      const data = Buffer.from(chunk).toString('base64')
+      viewer.handler('host', { type: 'chunk', transferId: 't1', offset, data, sha256: '0'.repeat(64) })
+      viewer.handler('host', {
+        type: 'chunk',
+        transferId: 't1',
+        offset,
+        data,
+        sha256: createHash('sha256').update(chunk).digest('hex'),
+      })
+    }
+    viewer.handler('host', { type: 'complete', transferId: 't1' })
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('done'))
+    expect(written).toEqual(bytes)
+  })
+
+  it('pauses when the peer drops and resumes from the last verified chunk', async () => {
+    const { host, viewer } = link()
+    electronAPI.writeFileChunk.mockImplementationOnce(async (_saveId: string, _offset: number, data: string) => {
+      written = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+      drop(host, viewer)
+    })
+    const { sending, receiving, bytes } = await startTransfer(host, viewer, 100000)
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('paused'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('paused'))
+    expect(electronAPI.cancelFileSave).not.toHaveBeenCalled()
+
+    reopen(host, viewer)
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('done'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('done'))
+    const requests = viewer.sent.filter((message) => message.type === 'request')
+    expect(requests.map((message) => message.offset)).toEqual([0, 16384])
+    expect(written).toEqual(bytes)
+    expect(electronAPI.startFileSave).toHaveBeenCalledTimes(1)
+    expect(electronAPI.finishFileSave).toHaveBeenCalledWith('save-1', 100000)
+  })
+
+  it('fails a paused transfer and discards the partial file once the peer stays away too long', async () => {
+    const { host, viewer } = link()
+    electronAPI.writeFileChunk.mockImplementationOnce(async () => {
+      drop(host, viewer)
+    })
+    const { sending, receiving } = await startTransfer(host, viewer, 100000, 50)
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('paused'))
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('failed'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('failed'))
+    expect(receiving.transfers[0].error).toBe('The connection was lost')
+    expect(sending.transfers[0].error).toBe('The connection was lost')
+    expect(electronAPI.cancelFileSave).toHaveBeenCalledTimes(1)
+    expect(electronAPI.cancelFileSave).toHaveBeenCalledWith('save-1')
+    expect(electronAPI.finishFileSave).not.toHaveBeenCalled()
+  })
+
+  it('fails a paused transfer the user cancels', async () => {
+    const { host, viewer } = link()
+    electronAPI.writeFileChunk.mockImplementationOnce(async () => {
+      drop(host, viewer)
+    })
+    const { receiver, receiving } = await startTransfer(host, viewer, 100000)
+
+    await vi.waitFor(() => expect(receiving.transfers[0].status).toBe('paused'))
+    receiver.cancel(receiving.transfers[0].id)
+    expect(receiving.transfers[0].status).toBe('cancelled')
+    expect(electronAPI.cancelFileSave).toHaveBeenCalledWith('save-1')
+
+    // Reopening no longer revives it
+    reopen(host, viewer)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(receiving.transfers[0].status).toBe('cancelled')
+    expect(viewer.sent.filter((message) => message.type === 'request')).toHaveLength(1)
+  })
+
+  it('leaves transfers with other peers alone when one drops', async () => {
+    const { host, viewer } = link()
+    const { sending } = await startTransfer(host, viewer, 100000)
+
+    host.closedListeners.forEach((listener) => listener('viewer-2'))
+    await vi.waitFor(() => expect(sending.transfers[0].status).toBe('done'))
+  })
+
+  it('stops listening for dropped peers once disposed', async () => {
+    const { host } = link()
+    const manager = new FileTransferManager(host.asManager())
+    expect(host.closedListeners).toHaveLength(1)
+    manager.dispose()
+    expect(host.closedListeners).toHaveLength(0)
+  })
+})
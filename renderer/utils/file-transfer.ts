@@ -0,0 +1,458 @@
+import { FILE_TRANSFER_CHANNEL, WebRTCManager } from './webrtc'
+
+// Raw bytes per chunk; base64 makes each message about a third larger
+const CHUNK_SIZE = 16 * 1024
+// Stop reading the file while this much is still queued on the channel
+const MAX_BUFFERED_BYTES = 1024 * 1024
+// Chunks that fail their checksum are requested again this many times
+const MAX_CHUNK_RETRIES = 3
+const PROGRESS_INTERVAL_MS = 200
+// How long a paused transfer waits for its peer's channel to open again
+const DEFAULT_PAUSE_TIMEOUT_MS = 2 * 60 * 1000
+
+export type FileTransferStatus =
+  | 'offered'       // incoming, waiting for the user to accept
+  | 'waiting'       // outgoing, waiting for the other side to accept
+  | 'transferring'
+  | 'paused'        // the connection dropped; resumes when it is back
+  | 'done'
+  | 'declined'
+  | 'cancelled'
+  | 'failed'
+
+export interface FileTransfer {
+  id: string
+  peerId: string
+  direction: 'incoming' | 'outgoing'
+  name: string
+  size: number
+  // Bytes sent, or bytes received and verified
+  transferred: number
+  status: FileTransferStatus
+  // Where an incoming file was saved
+  savedPath?: string
+  error?: string
+}
+
+// Messages on the file-transfer channel. 'request' accepts an offer and is
+// sent again to resume from an earlier offset, after a reconnect or a
+// corrupt chunk.
+type FileTransferMessage =
+  | { type: 'offer'; transferId: string; name: string; size: number }
+  | { type: 'request'; transferId: string; offset: number }
+  | { type: 'chunk'; transferId: string; offset: number; data: string; sha256: string }
+  | { type: 'complete'; transferId: string }
+  | { type: 'done'; transferId: string }
+  | { type: 'cancel'; transferId: string; reason: 'declined' | 'cancelled' | 'failed' }
+
+interface TransferState extends FileTransfer {
+  // Id shared with the other side; only unique per sender
+  transferId: string
+  file?: File
+  saveId?: string
+  // Bumped to stop a send loop that a new request supersedes
+  generation: number
+  // Failed checksums of the chunk being received
+  retries: number
+  // Fails the transfer if it stays paused too long
+  pauseTimer?: ReturnType<typeof setTimeout>
+  // Incoming chunks are verified and written one at a time
+  queue: Promise<void>
+}
+
+const FINISHED: FileTransferStatus[] = ['done', 'declined', 'cancelled', 'failed']
+
+const CONNECTION_LOST = 'The connection was lost'
+
+export interface FileTransferOptions {
+  pauseTimeoutMs?: number
+}
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+const fromBase64 = (data: string): Uint8Array => {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+  return Array.from(digest).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const isMessage = (value: unknown): value is FileTransferMessage =>
+  !!value && typeof value === 'object' && typeof (value as FileTransferMessage).transferId === 'string'
+
+// Sends and receives files over the file-transfer data channel of a
+// WebRTCManager. Incoming files are written through the main process to a
+// location the user picks. Transfers pause when the connection to their
+// peer drops and pick up from the last verified chunk once its channel opens
+// again; those still paused after pauseTimeoutMs fail.
+export class FileTransferManager {
+  private transfers: Map<string, TransferState> = new Map()
+  private onChange?: (transfers: FileTransfer[]) => void
+  private lastProgressAt = 0
+  private pauseTimeoutMs: number
+  private removePeerClosedListener: () => void
+
+  constructor(private readonly webrtc: WebRTCManager, options: FileTransferOptions = {}) {
+    this.pauseTimeoutMs = options.pauseTimeoutMs ?? DEFAULT_PAUSE_TIMEOUT_MS
+    webrtc.setOnDataMessage(FILE_TRANSFER_CHANNEL, (peerId, payload) => {
+      if (isMessage(payload)) {
+        this.handleMessage(peerId, payload)
+      }
+    })
+    webrtc.setOnDataChannelOpen(FILE_TRANSFER_CHANNEL, (peerId) => this.resume(peerId))
+    this.removePeerClosedListener = webrtc.addPeerClosedListener((peerId) => this.pausePeer(peerId))
+  }
+
+  public setOnChange(callback: (transfers: FileTransfer[]) => void) {
+    this.onChange = callback
+  }
+
+  // Offer a file to every connected peer: each viewer for the host, the
+  // host for a viewer. Returns how many peers it was offered to.
+  public sendFile(file: File): number {
+    const peers = this.webrtc.getOpenDataPeers(FILE_TRANSFER_CHANNEL)
+    peers.forEach((peerId) => {
+      const transferId = `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`
+      const transfer = this.addTransfer({
+        id: `out:${peerId}:${transferId}`,
+        transferId,
+        peerId,
+        direction: 'outgoing',
+        name: file.name,
+        size: file.size,
+        status: 'waiting',
+        file
+      })
+      this.send(transfer, { type: 'offer', transferId, name: file.name, size: file.size })
+    })
+    this.emit()
+    return peers.length
+  }
+
+  public async accept(id: string) {
+    const transfer = this.transfers.get(id)
+    if (!transfer || transfer.status !== 'offered') return
+
+    try {
+      const save = await window.electronAPI.startFileSave(transfer.name)
+      if (!save) {
+        this.decline(id)
+        return
+      }
+      transfer.saveId = save.saveId
+      transfer.savedPath = save.path
+      transfer.status = 'transferring'
+      if (!this.send(transfer, { type: 'request', transferId: transfer.transferId, offset: 0 })) {
+        this.pause(transfer)
+      }
+    } catch (error) {
+      this.fail(transfer, error instanceof Error ? error.message : 'Could not save the file')
+    }
+    this.emit()
+  }
+
+  public decline(id: string) {
+    const transfer = this.transfers.get(id)
+    if (!transfer || transfer.status !== 'offered') return
+
+    transfer.status = 'declined'
+    this.send(transfer, { type: 'cancel', transferId: transfer.transferId, reason: 'declined' })
+    this.emit()
+  }
+
+  public cancel(id: string) {
+    const transfer = this.transfers.get(id)
+    if (!transfer || FINISHED.indexOf(transfer.status) !== -1) return
+
+    this.send(transfer, { type: 'cancel', transferId: transfer.transferId, reason: 'cancelled' })
+    this.finish(transfer, 'cancelled')
+  }
+
+  // Remove a finished transfer from the list
+  public dismiss(id: string) {
+    const transfer = this.transfers.get(id)
+    if (transfer && FINISHED.indexOf(transfer.status) !== -1) {
+      this.transfers.delete(id)
+      this.emit()
+    }
+  }
+
+  // Stop everything in flight, keeping nothing half written
+  public dispose() {
+    this.transfers.forEach((transfer) => {
+      if (FINISHED.indexOf(transfer.status) === -1) {
+        this.finish(transfer, 'cancelled')
+      }
+    })
+    this.webrtc.setOnDataMessage(FILE_TRANSFER_CHANNEL, () => undefined)
+    this.webrtc.setOnDataChannelOpen(FILE_TRANSFER_CHANNEL, () => undefined)
+    this.removePeerClosedListener()
+    this.onChange = undefined
+  }
+
+  private addTransfer(
+    fields: Omit<TransferState, 'transferred' | 'generation' | 'retries' | 'queue' | 'pauseTimer'>
+  ): TransferState {
+    const transfer: TransferState = { ...fields, transferred: 0, generation: 0, retries: 0, queue: Promise.resolve() }
+    this.transfers.set(transfer.id, transfer)
+    return transfer
+  }
+
+  private send(transfer: TransferState, message: FileTransferMessage): boolean {
+    return this.webrtc.sendData(FILE_TRANSFER_CHANNEL, message, transfer.peerId)
+  }
+
+  private find(peerId: string, direction: 'incoming' | 'outgoing', transferId: string) {
+    return this.transfers.get(`${direction === 'incoming' ? 'in' : 'out'}:${peerId}:${transferId}`)
+  }
+
+  private handleMessage(peerId: string, message: FileTransferMessage) {
+    if (message.type === 'offer') {
+      if (typeof message.name !== 'string' || typeof message.size !== 'number' || message.size < 0) return
+      this.addTransfer({
+        id: `in:${peerId}:${message.transferId}`,
+        transferId: message.transferId,
+        peerId,
+        direction: 'incoming',
+        name: message.name,
+        size: message.size,
+        status: 'offered'
+      })
+      this.emit()
+      return
+    }
+
+    // Requests and completions come from the receiver, chunks from the sender
+    const outgoing = this.find(peerId, 'outgoing', message.transferId)
+    const incoming = this.find(peerId, 'incoming', message.transferId)
+
+    switch (message.type) {
+      case 'request':
+        if (outgoing) this.sendFrom(outgoing, message.offset)
+        break
+      case 'done':
+        if (outgoing) {
+          outgoing.transferred = outgoing.size
+          this.finish(outgoing, 'done')
+        }
+        break
+      case 'chunk':
+        if (incoming) {
+          incoming.queue = incoming.queue.then(() => this.receiveChunk(incoming, message))
+        }
+        break
+      case 'complete':
+        if (incoming) {
+          incoming.queue = incoming.queue.then(() => this.completeIncoming(incoming))
+        }
+        break
+      case 'cancel': {
+        const transfer = outgoing || incoming
+        if (transfer && FINISHED.indexOf(transfer.status) === -1) {
+          if (message.reason === 'failed') transfer.error = 'The other side could not complete the transfer'
+          this.finish(transfer, message.reason === 'declined' || message.reason === 'failed' ? message.reason : 'cancelled')
+        }
+        break
+      }
+    }
+  }
+
+  // Send chunks starting at offset until the file is done, the channel
+  // closes or a newer request takes over
+  private async sendFrom(transfer: TransferState, offset: number) {
+    if (!transfer.file || FINISHED.indexOf(transfer.status) !== -1) return
+    if (typeof offset !== 'number' || offset < 0 || offset > transfer.size) return
+
+    const generation = ++transfer.generation
+    this.clearPauseTimer(transfer)
+    transfer.status = 'transferring'
+    transfer.transferred = offset
+    this.emit()
+
+    try {
+      while (transfer.transferred < transfer.size) {
+        const drained = await this.webrtc.waitForDataBuffer(FILE_TRANSFER_CHANNEL, transfer.peerId, MAX_BUFFERED_BYTES)
+        if (generation !== transfer.generation || transfer.status !== 'transferring') return
+        if (!drained) {
+          this.pause(transfer)
+          return
+        }
+
+        const start = transfer.transferred
+        const bytes = new Uint8Array(await transfer.file.slice(start, start + CHUNK_SIZE).arrayBuffer())
+        const chunk: FileTransferMessage = {
+          type: 'chunk',
+          transferId: transfer.transferId,
+          offset: start,
+          data: toBase64(bytes),
+          sha256: await sha256(bytes)
+        }
+        if (generation !== transfer.generation || transfer.status !== 'transferring') return
+        if (!this.send(transfer, chunk)) {
+          this.pause(transfer)
+          return
+        }
+        transfer.transferred = start + bytes.length
+        this.emitProgress()
+      }
+      this.send(transfer, { type: 'complete', transferId: transfer.transferId })
+    } catch (error) {
+      console.error(`Error sending ${transfer.name}:`, error)
+      this.send(transfer, { type: 'cancel', transferId: transfer.transferId, reason: 'failed' })
+      this.fail(transfer, error instanceof Error ? error.message : 'Could not read the file')
+    }
+  }
+
+  private async receiveChunk(transfer: TransferState, chunk: Extract<FileTransferMessage, { type: 'chunk' }>) {
+    // Chunks from before a re-request are dropped until the sender catches up
+    if (transfer.status !== 'transferring' || !transfer.saveId || chunk.offset !== transfer.transferred) return
+
+    try {
+      const bytes = fromBase64(chunk.data)
+      if (await sha256(bytes) !== chunk.sha256 || transfer.transferred + bytes.length > transfer.size) {
+        transfer.retries++
+        if (transfer.retries > MAX_CHUNK_RETRIES) {
+          throw new Error('Received data kept failing its checksum')
+        }
+        // Later chunks no longer line up with transferred and are dropped
+        // until the sender restarts from here
+        console.warn(`Chunk at ${chunk.offset} of ${transfer.name} failed its checksum, requesting it again`)
+        this.send(transfer, { type: 'request', transferId: transfer.transferId, offset: chunk.offset })
+        return
+      }
+
+      await window.electronAPI.writeFileChunk(transfer.saveId, chunk.offset, chunk.data)
+      transfer.transferred = chunk.offset + bytes.length
+      transfer.retries = 0
+      this.emitProgress()
+    } catch (error) {
+      console.error(`Error receiving ${transfer.name}:`, error)
+      this.send(transfer, { type: 'cancel', transferId: transfer.transferId, reason: 'failed' })
+      this.fail(transfer, error instanceof Error ? error.message : 'Could not write the file')
+    }
+  }
+
+  private async completeIncoming(transfer: TransferState) {
+    if (transfer.status !== 'transferring' || !transfer.saveId) return
+    // A resend is still on its way
+    if (transfer.transferred < transfer.size) return
+
+    try {
+      transfer.savedPath = await window.electronAPI.finishFileSave(transfer.saveId, transfer.size)
+      transfer.saveId = undefined
+      this.send(transfer, { type: 'done', transferId: transfer.transferId })
+      this.finish(transfer, 'done')
+    } catch (error) {
+      console.error(`Error saving ${transfer.name}:`, error)
+      this.send(transfer, { type: 'cancel', transferId: transfer.transferId, reason: 'failed' })
+      this.fail(transfer, error instanceof Error ? error.message : 'Could not save the file')
+    }
+  }
+
+  // Keeps what has been received so far. Offers still waiting on the user
+  // are left as they are.
+  private pause(transfer: TransferState) {
+    if (transfer.status !== 'transferring') return
+
+    transfer.status = 'paused'
+    this.clearPauseTimer(transfer)
+    transfer.pauseTimer = setTimeout(() => {
+      transfer.pauseTimer = undefined
+      if (transfer.status === 'paused') {
+        this.fail(transfer, CONNECTION_LOST)
+      }
+    }, this.pauseTimeoutMs)
+    this.emit()
+  }
+
+  private clearPauseTimer(transfer: TransferState) {
+    if (transfer.pauseTimer) {
+      clearTimeout(transfer.pauseTimer)
+      transfer.pauseTimer = undefined
+    }
+  }
+
+  // The peer's connection was closed; it may come back under the same id
+  private pausePeer(peerId: string) {
+    this.transfers.forEach((transfer) => {
+      if (transfer.peerId === peerId) {
+        this.pause(transfer)
+      }
+    })
+  }
+
+  // The channel to a peer opened again: receivers ask for the rest of each
+  // unfinished file, and senders wait to be asked
+  private resume(peerId: string) {
+    this.transfers.forEach((transfer) => {
+      if (transfer.peerId !== peerId || transfer.direction !== 'incoming') return
+      if (transfer.status !== 'transferring' && transfer.status !== 'paused') return
+
+      this.clearPauseTimer(transfer)
+      transfer.status = 'transferring'
+      transfer.queue = transfer.queue.then(() => {
+        if (transfer.status !== 'transferring') return
+        if (!this.send(transfer, { type: 'request', transferId: transfer.transferId, offset: transfer.transferred })) {
+          this.pause(transfer)
+        }
+      })
+    })
+    this.emit()
+  }
+
+  private fail(transfer: TransferState, error: string) {
+    transfer.error = error
+    this.finish(transfer, 'failed')
+  }
+
+  private finish(transfer: TransferState, status: FileTransferStatus) {
+    transfer.status = status
+    transfer.generation++
+    this.clearPauseTimer(transfer)
+    transfer.file = undefined
+    if (transfer.saveId) {
+      window.electronAPI.cancelFileSave(transfer.saveId).catch((error) => {
+        console.error('Error discarding partial file:', error)
+      })
+      transfer.saveId = undefined
+    }
+    this.emit()
+  }
+
+  private emitProgress() {
+    const now = Date.now()
+    if (now - this.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      this.emit()
+    }
+  }
+
+  private emit() {
+    this.lastProgressAt = Date.now()
+    const transfers: FileTransfer[] = []
+    this.transfers.forEach((transfer) => {
+      const { id, peerId, direction, name, size, transferred, status, savedPath, error } = transfer
+      transfers.push({ id, peerId, direction, name, size, transferred, status, savedPath, error })
+    })
+    this.onChange?.(transfers)
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { buildInviteLink, parseInviteLink } from './invite'
+
+describe('invite links', () => {
+  it('round-trips a built link', () => {
+    const link = buildInviteLink('ABC123', 'k3y-Token_9')
+    expect(link).toBe('deskviewer://join/ABC123?invite=k3y-Token_9')
+    expect(parseInviteLink(link)).toEqual({ sessionId: 'ABC123', inviteToken: 'k3y-Token_9' })
+  })
+
+  it('round-trips tokens that need escaping', () => {
+    const link = buildInviteLink('ABC123', 'a+b/c=d&e')
+    expect(parseInviteLink(link)).toEqual({ sessionId: 'ABC123', inviteToken: 'a+b/c=d&e' })
+  })
+
+  it('tolerates surrounding whitespace and a lower-case code', () => {
+    expect(parseInviteLink('  deskviewer://join/abc123?invite=token\n')).toEqual({
+      sessionId: 'ABC123',
+      inviteToken: 'token',
+    })
+  })
+
+  it.each([
+    ['ABC123'],
+    [''],
+    ['https://join/ABC123?invite=token'],
+    ['deskviewer://share/ABC123?invite=token'],
+    ['deskviewer://join/?invite=token'],
+    ['deskviewer://join/ABC123'],
+    ['deskviewer://join/ABC123?invite='],
+    ['deskviewer://join/ABC123?token=token'],
+  ])('rejects %j', (text) => {
+    expect(parseInviteLink(text)).toBeNull()
+  })
+})
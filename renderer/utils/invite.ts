@@ -0,0 +1,29 @@
+export interface InviteLink {
+  sessionId: string
+  inviteToken: string
+}
+
+// deskviewer://join/<session code>?invite=<token>
+const INVITE_PROTOCOL = 'deskviewer:'
+const INVITE_HOST = 'join'
+
+export const buildInviteLink = (sessionId: string, inviteToken: string): string =>
+  `${INVITE_PROTOCOL}//${INVITE_HOST}/${encodeURIComponent(sessionId)}?invite=${encodeURIComponent(inviteToken)}`
+
+// Returns null for anything that is not an invite link, such as a bare code
+export const parseInviteLink = (text: string): InviteLink | null => {
+  let url: URL
+  try {
+    url = new URL(text.trim())
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== INVITE_PROTOCOL || url.hostname !== INVITE_HOST) return null
+
+  const sessionId = decodeURIComponent(url.pathname.replace(/^\//, ''))
+  const inviteToken = url.searchParams.get('invite')
+  if (!sessionId || !inviteToken) return null
+
+  return { sessionId: sessionId.toUpperCase(), inviteToken }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { AUTO_QUALITY, QUALITY_PRESETS, autoProfile, nextAutoBitrate, resolutionScale } from './quality'
+import type { ConnectionStats } from './stats'
+
+const stats = (packetLoss: number | null, roundTripTime: number | null): ConnectionStats => ({
+  timestamp: 0,
+  roundTripTime,
+  inboundBitrate: null,
+  outboundBitrate: null,
+  framesPerSecond: null,
+  resolution: null,
+  packetLoss,
+  jitter: null,
+  localCandidateType: null,
+  remoteCandidateType: null,
+  bytesReceived: 0,
+  bytesSent: 0,
+  packetsReceived: 0,
+  packetsLost: 0,
+})
+
+const track = (width?: number, height?: number) =>
+  ({ getSettings: () => ({ width, height }) }) as MediaStreamTrack
+
+describe('nextAutoBitrate', () => {
+  it.each([
+    ['no loss reported yet', 2000000, null, 50, 2000000],
+    ['no round trip reported yet', 2000000, 0, null, 2000000],
+    ['heavy loss', 2000000, 0.06, 50, 1400000],
+    ['a slow round trip', 2000000, 0, 401, 1400000],
+    ['loss at the back-off threshold', 2000000, 0.05, 100, 2000000],
+    ['a round trip at the back-off threshold', 2000000, 0, 400, 2000000],
+    ['a clean link', 2000000, 0.005, 100, 2200000],
+    ['loss at the recovery threshold', 2000000, 0.01, 100, 2000000],
+    ['a round trip at the recovery threshold', 2000000, 0, 200, 2000000],
+    ['backing off past the lower bound', 300000, 0.1, 50, AUTO_QUALITY.minBitrate],
+    ['backing off at the lower bound', AUTO_QUALITY.minBitrate, 0.1, 50, AUTO_QUALITY.minBitrate],
+    ['recovering past the upper bound', 3800000, 0, 50, AUTO_QUALITY.maxBitrate],
+    ['recovering at the upper bound', AUTO_QUALITY.maxBitrate, 0, 50, AUTO_QUALITY.maxBitrate],
+  ])('with %s goes from %d to the expected bitrate', (_label, current, packetLoss, roundTripTime, expected) => {
+    expect(nextAutoBitrate(current, stats(packetLoss, roundTripTime))).toBe(expected)
+  })
+})
+
+describe('autoProfile', () => {
+  it('drops to 720p below the low-resolution bitrate', () => {
+    expect(autoProfile(AUTO_QUALITY.lowResolutionBitrate - 1)).toMatchObject({ maxWidth: 1280, maxHeight: 720 })
+    expect(autoProfile(AUTO_QUALITY.lowResolutionBitrate)).toMatchObject({ maxWidth: 1920, maxHeight: 1080 })
+  })
+
+  it('uses the given bitrate', () => {
+    expect(autoProfile(1500000).maxBitrate).toBe(1500000)
+  })
+})
+
+describe('resolutionScale', () => {
+  it.each([
+    ['a picture that already fits', 1920, 1080, 'balanced', 1],
+    ['a smaller picture, which is never scaled up', 1280, 720, 'balanced', 1],
+    ['a 4K screen', 3840, 2160, 'balanced', 2],
+    ['a 4K screen for motion', 3840, 2160, 'motion', 3],
+    ['a taller screen, limited by its height', 1920, 1620, 'balanced', 1.5],
+    ['a wider screen, limited by its width', 3840, 1080, 'balanced', 2],
+  ] as const)('scales %s by the expected factor', (_label, width, height, preset, scale) => {
+    expect(resolutionScale(track(width, height), QUALITY_PRESETS[preset])).toBe(scale)
+  })
+
+  it('leaves a track without a reported size alone', () => {
+    expect(resolutionScale(track(), QUALITY_PRESETS.balanced)).toBe(1)
+    expect(resolutionScale(track(1920), QUALITY_PRESETS.balanced)).toBe(1)
+  })
+})
@@ -0,0 +1,67 @@
+import type { QualityMode } from '../../main/helpers/settings'
+import type { ConnectionStats } from './stats'
+
+export type QualityPreset = Exclude<QualityMode, 'auto'>
+
+// Encoder settings applied to each viewer's video senders
+export interface QualityProfile {
+  // The picture is scaled down to fit, never up
+  maxWidth: number
+  maxHeight: number
+  frameRate: number
+  contentHint: 'detail' | 'text' | 'motion'
+  // Bits per second for each shared video
+  maxBitrate: number
+}
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualityProfile> = {
+  // Sharp text at a low frame rate, for documents and code
+  text: { maxWidth: 2560, maxHeight: 1440, frameRate: 15, contentHint: 'text', maxBitrate: 4000000 },
+  balanced: { maxWidth: 1920, maxHeight: 1080, frameRate: 30, contentHint: 'detail', maxBitrate: 2500000 },
+  // Smooth video and animation at a lower resolution
+  motion: { maxWidth: 1280, maxHeight: 720, frameRate: 60, contentHint: 'motion', maxBitrate: 3000000 },
+}
+
+export const QUALITY_MODE_LABELS: Record<QualityMode, string> = {
+  text: 'Text clarity',
+  balanced: 'Balanced',
+  motion: 'Motion',
+  auto: 'Automatic',
+}
+
+// Automatic mode starts from the balanced bitrate and moves within these
+// bounds for each viewer on its own
+export const AUTO_QUALITY = {
+  minBitrate: 250000,
+  maxBitrate: 4000000,
+  // Below this bitrate the picture drops to 720p
+  lowResolutionBitrate: 1000000,
+}
+
+// Back off quickly when the viewer's link is congested and recover slowly
+// once it is clean again. Holds steady until the viewer has reported both.
+export const nextAutoBitrate = (current: number, stats: ConnectionStats): number => {
+  if (stats.packetLoss === null || stats.roundTripTime === null) {
+    return current
+  }
+  if (stats.packetLoss > 0.05 || stats.roundTripTime > 400) {
+    return Math.max(AUTO_QUALITY.minBitrate, Math.round(current * 0.7))
+  }
+  if (stats.packetLoss < 0.01 && stats.roundTripTime < 200) {
+    return Math.min(AUTO_QUALITY.maxBitrate, Math.round(current * 1.1))
+  }
+  return current
+}
+
+export const autoProfile = (bitrate: number): QualityProfile => ({
+  ...QUALITY_PRESETS.balanced,
+  ...(bitrate < AUTO_QUALITY.lowResolutionBitrate ? { maxWidth: 1280, maxHeight: 720 } : {}),
+  maxBitrate: bitrate,
+})
+
+// How far to scale a captured track down to fit the profile
+export const resolutionScale = (track: MediaStreamTrack, profile: QualityProfile): number => {
+  const { width, height } = track.getSettings()
+  if (!width || !height) return 1
+  return Math.max(1, width / profile.maxWidth, height / profile.maxHeight)
+}
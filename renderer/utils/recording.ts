@@ -0,0 +1,157 @@
+// Containers to ask MediaRecorder for, best first
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+// How much video MediaRecorder gathers before handing it over to be written
+const CHUNK_INTERVAL_MS = 1000
+
+export type RecordingState =
+  | 'recording'
+  | 'saving'        // stopped, the last chunks are still being written
+  | 'saved'
+  | 'failed'
+
+export interface RecordingStatus {
+  state: RecordingState
+  startedAt: number
+  // Milliseconds of recording, up to the latest chunk
+  elapsed: number
+  // Bytes written to the file so far
+  bytes: number
+  path: string
+  error?: string
+}
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value))
+
+// m:ss, or h:mm:ss from an hour on
+export const formatDuration = (milliseconds: number): string => {
+  const seconds = Math.floor(milliseconds / 1000)
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor(seconds / 60) % 60
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`
+}
+
+// Local date and time for file names, e.g. 2024-05-01-093015
+export const fileTimestamp = (date: Date): string => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  return `${day}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
+
+export const recordingFileName = (sessionId: string): string =>
+  `deskviewer-${sessionId}-${fileTimestamp(new Date())}.webm`
+
+// Records a stream to a WebM file in the configured recording folder. Chunks
+// are written one at a time, in the order MediaRecorder produces them.
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null
+  private recordingId: string = ''
+  private status: RecordingStatus | null = null
+  private writes: Promise<void> = Promise.resolve()
+  private onChange?: (status: RecordingStatus | null) => void
+
+  public setOnChange(callback: (status: RecordingStatus | null) => void) {
+    this.onChange = callback
+  }
+
+  public isRecording(): boolean {
+    return this.recorder !== null
+  }
+
+  public async start(stream: MediaStream, name: string): Promise<void> {
+    if (this.recorder) {
+      throw new Error('Already recording')
+    }
+    if (stream.getVideoTracks().length === 0) {
+      throw new Error('There is no video to record')
+    }
+
+    const mimeType = MIME_TYPES.filter((type) => MediaRecorder.isTypeSupported(type))[0]
+    const recording = await window.electronAPI.startRecording(name)
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    this.recorder = recorder
+    this.recordingId = recording.recordingId
+    this.writes = Promise.resolve()
+    this.status = { state: 'recording', startedAt: Date.now(), elapsed: 0, bytes: 0, path: recording.path }
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.write(event.data)
+      }
+    }
+    // Also fires when every track ends, e.g. when the host stops sharing
+    recorder.onstop = () => this.finish()
+    recorder.onerror = () => this.fail('The recorder stopped unexpectedly')
+
+    recorder.start(CHUNK_INTERVAL_MS)
+    this.emit()
+  }
+
+  // The file is finished once the status reports 'saved'
+  public stop() {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop()
+    }
+  }
+
+  // Forgets a finished recording's status
+  public dismiss() {
+    if (this.recorder) return
+    this.status = null
+    this.emit()
+  }
+
+  private write(data: Blob) {
+    const status = this.status
+    const recordingId = this.recordingId
+    this.writes = this.writes.then(async () => {
+      if (!status || status.state === 'failed') return
+      const bytes = new Uint8Array(await data.arrayBuffer())
+      await window.electronAPI.writeRecordingChunk(recordingId, bytes)
+      status.bytes += bytes.length
+      status.elapsed = Date.now() - status.startedAt
+      this.emit()
+    }).catch((error) => {
+      console.error('Error writing recording:', error)
+      this.fail('Could not write the recording to disk')
+    })
+  }
+
+  private fail(message: string) {
+    if (!this.status || this.status.state === 'failed') return
+    this.status.state = 'failed'
+    this.status.error = message
+    this.stop()
+    this.emit()
+  }
+
+  private finish() {
+    const status = this.status
+    const recordingId = this.recordingId
+    this.recorder = null
+    if (!status) return
+
+    if (status.state === 'recording') {
+      status.state = 'saving'
+      status.elapsed = Date.now() - status.startedAt
+      this.emit()
+    }
+    this.writes
+      .then(() => window.electronAPI.stopRecording(recordingId))
+      .then((result) => {
+        status.bytes = result.size
+        if (status.state === 'saving') {
+          status.state = 'saved'
+        }
+        this.emit()
+      })
+      .catch((error) => {
+        console.error('Error finishing recording:', error)
+        this.fail('Could not finish the recording')
+      })
+  }
+
+  private emit() {
+    this.onChange?.(this.status && { ...this.status })
+  }
+}
@@ -0,0 +1,41 @@
+import type { KeyModifiers, MouseButton } from '../../main/helpers/input-injector'
+
+const MOUSE_BUTTONS: MouseButton[] = ['left', 'middle', 'right']
+
+// Map a point on the <video> element to 0..1 coordinates on the remote
+// display, accounting for the letterboxing added by object-contain. Returns
+// null when the point falls outside the picture.
+export const toNormalizedPoint = (
+  video: HTMLVideoElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } | null => {
+  const rect = video.getBoundingClientRect()
+  if (!video.videoWidth || !video.videoHeight || !rect.width || !rect.height) {
+    return null
+  }
+
+  const scale = Math.min(rect.width / video.videoWidth, rect.height / video.videoHeight)
+  const contentWidth = video.videoWidth * scale
+  const contentHeight = video.videoHeight * scale
+  const offsetX = (rect.width - contentWidth) / 2
+  const offsetY = (rect.height - contentHeight) / 2
+
+  const x = (clientX - rect.left - offsetX) / contentWidth
+  const y = (clientY - rect.top - offsetY) / contentHeight
+  if (x < 0 || x > 1 || y < 0 || y > 1) {
+    return null
+  }
+
+  return { x, y }
+}
+
+export const toMouseButton = (button: number): MouseButton =>
+  MOUSE_BUTTONS[button] || 'left'
+
+export const toKeyModifiers = (event: { altKey: boolean; ctrlKey: boolean; metaKey: boolean; shiftKey: boolean }): KeyModifiers => ({
+  alt: event.altKey,
+  ctrl: event.ctrlKey,
+  meta: event.metaKey,
+  shift: event.shiftKey,
+})
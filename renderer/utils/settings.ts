@@ -0,0 +1,10 @@
+import type { WebRTCManagerOptions } from './webrtc'
+
+// Connection options for a new WebRTCManager, taken from the saved settings
+export const loadManagerOptions = async (): Promise<WebRTCManagerOptions> => {
+  const settings = await window.electronAPI.getSettings()
+  return {
+    signalingUrl: settings.signalingUrl,
+    iceServers: settings.iceServers
+  }
+}
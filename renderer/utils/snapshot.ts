@@ -0,0 +1,53 @@
+import { fileTimestamp } from './recording'
+
+// Width of gallery thumbnails; the height keeps the frame's aspect ratio
+const THUMBNAIL_WIDTH = 240
+
+export interface Snapshot {
+  id: string
+  path: string
+  // Small JPEG data URL for the gallery
+  thumbnailUrl: string
+  width: number
+  height: number
+  takenAt: number
+}
+
+export interface CapturedFrame {
+  png: Uint8Array
+  thumbnailUrl: string
+  width: number
+  height: number
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the frame'))), type)
+  })
+
+// The video's current frame at the resolution it is received in, whatever
+// size it is shown at
+export const captureFrame = async (video: HTMLVideoElement): Promise<CapturedFrame> => {
+  const width = video.videoWidth
+  const height = video.videoHeight
+  if (!width || !height) {
+    throw new Error('There is no video frame to capture yet')
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(video, 0, 0, width, height)
+  const png = new Uint8Array(await (await toBlob(canvas, 'image/png')).arrayBuffer())
+
+  const thumbnail = document.createElement('canvas')
+  thumbnail.width = Math.min(THUMBNAIL_WIDTH, width)
+  thumbnail.height = Math.round(height * thumbnail.width / width)
+  thumbnail.getContext('2d')!.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height)
+
+  return { png, thumbnailUrl: thumbnail.toDataURL('image/jpeg', 0.8), width, height }
+}
+
+// Milliseconds keep snapshots taken within the same second apart
+export const snapshotFileName = (sessionId: string, takenAt: Date): string =>
+  `deskviewer-${sessionId}-${fileTimestamp(takenAt)}-${`00${takenAt.getMilliseconds()}`.slice(-3)}.png`
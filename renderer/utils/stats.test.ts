@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { summarizeStats } from './stats'
+
+type Entry = Record<string, unknown> & { id: string; type: string }
+
+// getStats resolves with a maplike of entries keyed by id
+const report = (...entries: Entry[]) =>
+  new Map(entries.map((entry) => [entry.id, entry])) as unknown as RTCStatsReport
+
+const candidates: Entry[] = [
+  { id: 'L1', type: 'local-candidate', candidateType: 'srflx' },
+  { id: 'R1', type: 'remote-candidate', candidateType: 'relay' },
+]
+const pair: Entry = {
+  id: 'P1',
+  type: 'candidate-pair',
+  localCandidateId: 'L1',
+  remoteCandidateId: 'R1',
+  currentRoundTripTime: 0.045,
+}
+const transport: Entry = { id: 'T1', type: 'transport', selectedCandidatePairId: 'P1' }
+
+const inbound = (changes: Partial<Entry> = {}): Entry => ({
+  id: 'IN1',
+  type: 'inbound-rtp',
+  kind: 'video',
+  bytesReceived: 1000000,
+  packetsReceived: 900,
+  packetsLost: 10,
+  frameWidth: 1920,
+  frameHeight: 1080,
+  framesPerSecond: 29.7,
+  jitter: 0.0123,
+  ...changes,
+})
+
+const outbound: Entry = {
+  id: 'OUT1',
+  type: 'outbound-rtp',
+  kind: 'video',
+  bytesSent: 500000,
+  frameWidth: 1280,
+  frameHeight: 720,
+  framesPerSecond: 60,
+}
+const remoteInbound: Entry = {
+  id: 'RIN1',
+  type: 'remote-inbound-rtp',
+  kind: 'video',
+  fractionLost: 0.02,
+  jitter: 0.008,
+  roundTripTime: 0.12,
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('summarizeStats', () => {
+  it('reads a viewer sample through the selected candidate pair', () => {
+    const stats = summarizeStats(report(transport, pair, ...candidates, inbound()))
+
+    expect(stats).toMatchObject({
+      roundTripTime: 45,
+      framesPerSecond: 30,
+      resolution: { width: 1920, height: 1080 },
+      jitter: 12,
+      localCandidateType: 'srflx',
+      remoteCandidateType: 'relay',
+      bytesReceived: 1000000,
+      packetsReceived: 900,
+      packetsLost: 10,
+    })
+    // Rates need a previous sample
+    expect(stats.inboundBitrate).toBeNull()
+    expect(stats.packetLoss).toBeNull()
+  })
+
+  it('works out rates and recent loss from the previous sample', () => {
+    const first = summarizeStats(report(transport, pair, ...candidates, inbound()))
+    vi.advanceTimersByTime(2000)
+    const second = summarizeStats(report(transport, pair, ...candidates, inbound({
+      bytesReceived: 1500000,
+      packetsReceived: 1090,
+      packetsLost: 20,
+    })), first)
+
+    expect(second.inboundBitrate).toBe(2000000)
+    expect(second.packetLoss).toBe(0.05)
+    expect(second.outboundBitrate).toBeNull()
+  })
+
+  it('sums every shared video and ignores audio', () => {
+    const stats = summarizeStats(report(
+      inbound(),
+      inbound({ id: 'IN2', bytesReceived: 250000, frameWidth: 2560, frameHeight: 1440, framesPerSecond: 15 }),
+      { id: 'IN3', type: 'inbound-rtp', kind: 'audio', bytesReceived: 99999, packetsLost: 99 },
+    ))
+
+    expect(stats.bytesReceived).toBe(1250000)
+    expect(stats.packetsLost).toBe(20)
+    expect(stats.resolution).toEqual({ width: 2560, height: 1440 })
+    expect(stats.framesPerSecond).toBe(15)
+  })
+
+  it('falls back to the nominated pair on browsers without a selected pair id', () => {
+    const nominated = { ...pair, nominated: true, state: 'succeeded' }
+    const stats = summarizeStats(report({ id: 'T1', type: 'transport' }, nominated, ...candidates, inbound()))
+
+    expect(stats.roundTripTime).toBe(45)
+    expect(stats.localCandidateType).toBe('srflx')
+  })
+
+  it('leaves the route unknown without a candidate pair', () => {
+    const stats = summarizeStats(report(...candidates, inbound()))
+
+    expect(stats.roundTripTime).toBeNull()
+    expect(stats.localCandidateType).toBeNull()
+    expect(stats.remoteCandidateType).toBeNull()
+    expect(stats.resolution).toEqual({ width: 1920, height: 1080 })
+  })
+
+  it('leaves the route unknown when the selected pair is missing from the report', () => {
+    const stats = summarizeStats(report(transport, ...candidates, inbound()))
+
+    expect(stats.roundTripTime).toBeNull()
+    expect(stats.localCandidateType).toBeNull()
+  })
+
+  it('reads a host sample from what the viewer reports, without inbound-rtp entries', () => {
+    const first = summarizeStats(report(outbound, remoteInbound))
+    vi.advanceTimersByTime(1000)
+    const second = summarizeStats(report({ ...outbound, bytesSent: 750000 }, remoteInbound), first)
+
+    expect(second).toMatchObject({
+      roundTripTime: 120,
+      inboundBitrate: null,
+      outboundBitrate: 2000000,
+      framesPerSecond: 60,
+      resolution: { width: 1280, height: 720 },
+      packetLoss: 0.02,
+      jitter: 8,
+      bytesReceived: 0,
+      packetsReceived: 0,
+    })
+  })
+
+  it('reports nothing for an empty report', () => {
+    const stats = summarizeStats(report(), summarizeStats(report()))
+
+    expect(stats).toMatchObject({
+      roundTripTime: null,
+      inboundBitrate: null,
+      outboundBitrate: null,
+      framesPerSecond: null,
+      resolution: null,
+      packetLoss: null,
+      jitter: null,
+      localCandidateType: null,
+      remoteCandidateType: null,
+      bytesReceived: 0,
+      bytesSent: 0,
+    })
+  })
+})
@@ -0,0 +1,147 @@
+// How a connection reaches the other side: directly on the local network
+// (host), through a NAT mapping (srflx, prflx) or via a TURN server (relay)
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay'
+
+// One sample of a peer connection's health. Rates cover the time since the
+// previous sample; values the browser has not reported yet are null.
+export interface ConnectionStats {
+  timestamp: number
+  // Milliseconds
+  roundTripTime: number | null
+  // Bits per second of video, summed over every shared display
+  inboundBitrate: number | null
+  outboundBitrate: number | null
+  framesPerSecond: number | null
+  resolution: { width: number; height: number } | null
+  // Fraction of video packets lost, 0..1
+  packetLoss: number | null
+  // Milliseconds
+  jitter: number | null
+  localCandidateType: CandidateType | null
+  remoteCandidateType: CandidateType | null
+  // Running totals the next sample's rates are worked out from
+  bytesReceived: number
+  bytesSent: number
+  packetsReceived: number
+  packetsLost: number
+}
+
+const bitrate = (bytes: number, previousBytes: number, seconds: number): number | null =>
+  seconds > 0 && bytes >= previousBytes ? Math.round((bytes - previousBytes) * 8 / seconds) : null
+
+const toMilliseconds = (seconds: unknown): number | null =>
+  typeof seconds === 'number' ? Math.round(seconds * 1000) : null
+
+// Running byte and packet counts of an RTP stream
+interface RtpCounters {
+  bytesReceived?: number
+  bytesSent?: number
+  packetsReceived?: number
+  packetsLost?: number
+}
+
+// The fields of getStats entries read here. Which ones are present depends
+// on the entry's type, and browsers leave out values they have not measured.
+interface StatsEntry extends RtpCounters {
+  id: string
+  type: RTCStatsType
+  kind?: string
+  frameWidth?: number
+  frameHeight?: number
+  framesPerSecond?: number
+  fractionLost?: number
+  jitter?: number
+  roundTripTime?: number
+  currentRoundTripTime?: number
+  selectedCandidatePairId?: string
+  nominated?: boolean
+  state?: string
+  localCandidateId?: string
+  remoteCandidateId?: string
+  candidateType?: CandidateType
+}
+
+// Condense a getStats report into ConnectionStats. Pass the previous sample
+// for the same connection to get bitrates and the recent packet loss.
+export const summarizeStats = (report: RTCStatsReport, previous?: ConnectionStats | null): ConnectionStats => {
+  const reports: StatsEntry[] = []
+  report.forEach((entry: StatsEntry) => reports.push(entry))
+  const byId = (id: string) => reports.find((entry) => entry.id === id)
+
+  const inbound = reports.filter((entry) => entry.type === 'inbound-rtp' && entry.kind === 'video')
+  const outbound = reports.filter((entry) => entry.type === 'outbound-rtp' && entry.kind === 'video')
+  const remoteInbound = reports.filter((entry) => entry.type === 'remote-inbound-rtp' && entry.kind === 'video')
+
+  const sum = (entries: StatsEntry[], field: keyof RtpCounters) =>
+    entries.reduce((total, entry) => total + (typeof entry[field] === 'number' ? entry[field] : 0), 0)
+  const timestamp = Date.now()
+  const bytesReceived = sum(inbound, 'bytesReceived')
+  const bytesSent = sum(outbound, 'bytesSent')
+  const packetsReceived = sum(inbound, 'packetsReceived')
+  const packetsLost = sum(inbound, 'packetsLost')
+
+  // The transport names the pair in use; older browsers only flag it
+  const transport = reports.find((entry) => entry.type === 'transport' && entry.selectedCandidatePairId)
+  const pair = transport
+    ? byId(transport.selectedCandidatePairId)
+    : reports.find((entry) => entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded')
+  const localCandidate = pair && byId(pair.localCandidateId)
+  const remoteCandidate = pair && byId(pair.remoteCandidateId)
+
+  // Frame rate and size of the largest video, received or sent
+  const video = (inbound.length > 0 ? inbound : outbound)
+    .filter((entry) => entry.frameWidth && entry.frameHeight)
+    .sort((a, b) => b.frameWidth * b.frameHeight - a.frameWidth * a.frameHeight)[0]
+
+  // A viewer counts its own losses; the host relies on what viewers report
+  let packetLoss: number | null = null
+  if (inbound.length > 0 && previous) {
+    const lost = packetsLost - previous.packetsLost
+    const total = lost + packetsReceived - previous.packetsReceived
+    packetLoss = total > 0 ? Math.max(0, lost) / total : 0
+  } else if (remoteInbound.length > 0) {
+    packetLoss = Math.max(...remoteInbound.map((entry) => entry.fractionLost || 0))
+  }
+
+  const jitterSource = inbound.length > 0 ? inbound : remoteInbound
+  const seconds = previous ? (timestamp - previous.timestamp) / 1000 : 0
+
+  return {
+    timestamp,
+    roundTripTime: toMilliseconds(pair && pair.currentRoundTripTime !== undefined
+      ? pair.currentRoundTripTime
+      : remoteInbound.length > 0 ? remoteInbound[0].roundTripTime : undefined),
+    inboundBitrate: previous && inbound.length > 0 ? bitrate(bytesReceived, previous.bytesReceived, seconds) : null,
+    outboundBitrate: previous && outbound.length > 0 ? bitrate(bytesSent, previous.bytesSent, seconds) : null,
+    framesPerSecond: video && typeof video.framesPerSecond === 'number' ? Math.round(video.framesPerSecond) : null,
+    resolution: video ? { width: video.frameWidth, height: video.frameHeight } : null,
+    packetLoss,
+    jitter: jitterSource.length > 0 ? toMilliseconds(Math.max(...jitterSource.map((entry) => entry.jitter || 0))) : null,
+    localCandidateType: localCandidate ? localCandidate.candidateType : null,
+    remoteCandidateType: remoteCandidate ? remoteCandidate.candidateType : null,
+    bytesReceived,
+    bytesSent,
+    packetsReceived,
+    packetsLost,
+  }
+}
+
+export const formatBitrate = (bitsPerSecond: number | null): string => {
+  if (bitsPerSecond === null) return '-'
+  if (bitsPerSecond >= 1000000) return `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+  return `${Math.round(bitsPerSecond / 1000)} kbps`
+}
+
+export const formatPacketLoss = (packetLoss: number | null): string =>
+  packetLoss === null ? '-' : `${(packetLoss * 100).toFixed(1)}%`
+
+export const formatMilliseconds = (value: number | null): string =>
+  value === null ? '-' : `${value} ms`
+
+export const formatResolution = (stats: ConnectionStats): string =>
+  stats.resolution
+    ? `${stats.resolution.width}x${stats.resolution.height}${stats.framesPerSecond !== null ? ` @ ${stats.framesPerSecond} fps` : ''}`
+    : '-'
+
+export const formatCandidateType = (stats: ConnectionStats): string =>
+  stats.localCandidateType ? `${stats.localCandidateType} / ${stats.remoteCandidateType || '?'}` : '-'
@@ -1,242 +1,1110 @@
-export interface SignalingMessage {
-  type: string
-  sessionId?: string
-  clientId?: string
-  data?: any
+import type { RemoteInputEvent } from '../../main/helpers/input-injector'
+import type { DisplayInfo } from '../../main/helpers/capture-sources'
+import type { QualityMode } from '../../main/helpers/settings'
+import { ClipboardContent, isClipboardContent } from '../../main/helpers/clipboard'
+import { AnnotationMessage, isAnnotationMessage } from '../../main/helpers/annotation'
+import { QUALITY_PRESETS, QualityProfile, autoProfile, nextAutoBitrate, resolutionScale } from './quality'
+import { ConnectionStats, summarizeStats } from './stats'
+import {
+  MAX_CHAT_MESSAGE_LENGTH,
+  PROTOCOL_VERSION,
+  ClientMessage,
+  ServerMessage,
+  SessionErrorCode,
+  parseServerMessage,
+} from '../../main/signaling-protocol'
+
+export class SignalingError extends Error {
+  constructor(public readonly code: SessionErrorCode, message: string) {
+    super(message)
+    this.name = 'SignalingError'
+  }
+}
+
+export interface HostSessionOptions {
+  password?: string
+}
+
+export interface ClientSessionOptions {
+  password?: string
+  displayName?: string
+  inviteToken?: string
+}
+
+export interface InviteOptions {
+  // Spent by the first viewer who asks to join with it
+  singleUse?: boolean
+  // Omit for an invite that lasts as long as the session
+  ttlSeconds?: number
+}
+
+export interface SessionInvite {
+  token: string
+  singleUse: boolean
+  expiresAt: Date | null
+}
+
+export interface ReconnectOptions {
+  baseDelayMs?: number
+  maxDelayMs?: number
+  maxAttempts?: number
+}
+
+export interface IceRestartOptions {
+  // Restart attempts per peer before the connection is declared lost
+  maxAttempts?: number
+  // How long a 'disconnected' peer may recover on its own first
+  disconnectedTimeoutMs?: number
+}
+
+export interface WebRTCManagerOptions {
+  signalingUrl?: string
+  iceServers?: RTCIceServer[]
+  reconnect?: ReconnectOptions
+  iceRestart?: IceRestartOptions
+}
+
+// 'reconnecting' while the signaling socket is being re-established with
+// backoff; 'disconnected' once the manager has given up
+export type SignalingState = 'connected' | 'reconnecting' | 'disconnected'
+
+// One video the host shares: a whole display, or a window (display null)
+export interface SharedStream {
+  stream: MediaStream
+  label: string
+  display: DisplayInfo | null
+}
+
+// Sent to viewers on the displays channel so they can tell the videos apart
+export interface DisplayAnnouncement {
+  streamId: string
+  label: string
+  display: DisplayInfo | null
+}
+
+export interface RemoteDisplay extends DisplayAnnouncement {
+  stream: MediaStream
+}
+
+// A shared video as published to viewers. The track can be swapped, but
+// the stream it was first published with keeps identifying it to viewers.
+interface PublishedVideo {
+  carrier: MediaStream
+  track: MediaStreamTrack
+  label: string
+  display: DisplayInfo | null
+}
+
+// System audio travels in a stream of its own so viewers never mistake it
+// for a display
+interface PublishedAudio {
+  carrier: MediaStream
+  track: MediaStreamTrack
+}
+
+export interface JoinRequest {
+  clientId: string
+  displayName: string
+}
+
+export interface ChatMessage {
+  id: string
+  senderName: string
+  text: string
+  // Milliseconds since the epoch, by the sender's clock
+  sentAt: number
+  fromSelf: boolean
+}
+
+// A chat message as it travels, over the chat channel or relayed by the
+// signaling server
+type ChatPayload = Omit<ChatMessage, 'fromSelf'>
+
+const isChatPayload = (value: unknown): value is ChatPayload => {
+  if (!value || typeof value !== 'object') return false
+  const message = value as Record<string, unknown>
+  return typeof message.id === 'string' && typeof message.senderName === 'string' &&
+    typeof message.text === 'string' && message.text.length > 0 && message.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    typeof message.sentAt === 'number'
+}
+
+// Session state each side announces on the control channel. Only the host
+// sends remote_control.
+type ControlMessage =
+  | { type: 'recording'; active: boolean }
+  | { type: 'remote_control'; enabled: boolean }
+
+const HOST_PEER_ID = 'host'
+const HOST_CHAT_NAME = 'Host'
+const DEFAULT_SIGNALING_URL = 'wss://localhost:8080'
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+]
+const HANDSHAKE_TIMEOUT_MS = 5000
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxAttempts: 8
+}
+
+const DEFAULT_ICE_RESTART: Required<IceRestartOptions> = {
+  maxAttempts: 3,
+  disconnectedTimeoutMs: 3000
 }
 
+// Data channels the host opens on every viewer connection
+const INPUT_CHANNEL = 'input'
+const DISPLAYS_CHANNEL = 'displays'
+const CLIPBOARD_CHANNEL = 'clipboard'
+export const FILE_TRANSFER_CHANNEL = 'file-transfer'
+const CHAT_CHANNEL = 'chat'
+const CONTROL_CHANNEL = 'control'
+const ANNOTATION_CHANNEL = 'annotation'
+const DATA_CHANNEL_LABELS = [
+  INPUT_CHANNEL,
+  DISPLAYS_CHANNEL,
+  CLIPBOARD_CHANNEL,
+  FILE_TRANSFER_CHANNEL,
+  CHAT_CHANNEL,
+  CONTROL_CHANNEL,
+  ANNOTATION_CHANNEL
+]
+
+// How often each peer connection's statistics are sampled. Automatic
+// quality adapts at the same pace.
+const STATS_INTERVAL_MS = 2000
+
 export class WebRTCManager {
-  private peerConnection: RTCPeerConnection | null = null
+  // The host holds one connection per viewer, keyed by clientId; a client
+  // holds a single connection to the host, keyed by HOST_PEER_ID.
+  private peerConnections: Map<string, RTCPeerConnection> = new Map()
+  private dataChannels: Map<string, Map<string, RTCDataChannel>> = new Map()
+  private dataHandlers: Map<string, (peerId: string, payload: unknown) => void> = new Map()
+  private dataOpenHandlers: Map<string, (peerId: string) => void> = new Map()
+  private peerClosedListeners: Array<(peerId: string) => void> = []
+  private publishedVideos: PublishedVideo[] = []
+  private publishedAudio: PublishedAudio | null = null
+  private qualityMode: QualityMode = 'balanced'
+  // Automatic mode's current bitrate for each viewer
+  private autoBitrates: Map<string, number> = new Map()
+  private peerStats: Map<string, ConnectionStats> = new Map()
+  private statsTimer: ReturnType<typeof setInterval> | null = null
+  // Host side: names viewers gave when joining, by clientId
+  private viewerNames: Map<string, string> = new Map()
+  // Viewer side: streams from the host by id, and the host's description of them
+  private remoteStreams: Map<string, MediaStream> = new Map()
+  private displayAnnouncements: DisplayAnnouncement[] = []
+  private remoteAudio: MediaStream | null = null
   private ws: WebSocket | null = null
   private sessionId: string = ''
   private clientId: string = ''
+  private displayName: string = ''
+  // Chat arriving over both the channel and the server is shown once
+  private seenChatIds: Set<string> = new Set()
+  // Whether this side is recording, and which peers say they are
+  private recording: boolean = false
+  private remoteRecorders: Set<string> = new Set()
+  // On the host, whether viewers may control it; on a viewer, whether the
+  // host said so
+  private remoteControl: boolean = false
   private isHost: boolean = false
+  private signalingUrl: string
+  private iceServers: RTCIceServer[]
+  private resumeToken: string | null = null
+  private reconnectOptions: Required<ReconnectOptions>
+  private reconnectAttempt: number = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private disconnecting: boolean = false
+  private iceRestartOptions: Required<IceRestartOptions>
+  private iceRestartAttempts: Map<string, number> = new Map()
+  private iceRecoveryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
   private onStreamReceived?: (stream: MediaStream) => void
+  private onDisplaysChange?: (displays: RemoteDisplay[]) => void
+  private onAudioChange?: (stream: MediaStream | null) => void
+  private onStatsUpdate?: (peerId: string, stats: ConnectionStats) => void
+  private onChat?: (message: ChatMessage) => void
+  private onRecordingChange?: (peerIds: string[]) => void
+  private onRemoteControlChange?: (enabled: boolean) => void
   private onConnectionStateChange?: (state: string) => void
+  private onPeerStateChange?: (clientId: string, state: string) => void
+  private onJoinRequest?: (request: JoinRequest) => void
+  private onJoinRequestCancelled?: (clientId: string) => void
+  private onJoinPending?: () => void
+  private onSignalingStateChange?: (state: SignalingState) => void
+  private onHostStatusChange?: (status: 'reconnecting' | 'connected') => void
+  private onError?: (message: string) => void
 
-  constructor() {
-    this.setupPeerConnection()
+  constructor(options: WebRTCManagerOptions = {}) {
+    this.signalingUrl = options.signalingUrl || DEFAULT_SIGNALING_URL
+    this.iceServers = options.iceServers || DEFAULT_ICE_SERVERS
+    this.reconnectOptions = { ...DEFAULT_RECONNECT, ...options.reconnect }
+    this.iceRestartOptions = { ...DEFAULT_ICE_RESTART, ...options.iceRestart }
+    this.dataHandlers.set(CHAT_CHANNEL, (peerId, payload) => this.receiveChat(peerId, payload))
+    this.dataHandlers.set(CONTROL_CHANNEL, (peerId, payload) => this.receiveControl(peerId, payload))
   }
 
-  private setupPeerConnection() {
+  private createPeerConnection(peerId: string): RTCPeerConnection {
     const configuration: RTCConfiguration = {
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
+      iceServers: this.iceServers
     }
 
-    this.peerConnection = new RTCPeerConnection(configuration)
+    const peerConnection = new RTCPeerConnection(configuration)
+    this.peerConnections.set(peerId, peerConnection)
 
-    this.peerConnection.onicecandidate = (event) => {
+    peerConnection.onicecandidate = (event) => {
       if (event.candidate) {
         this.sendSignalingMessage({
           type: 'ice_candidate',
           sessionId: this.sessionId,
-          clientId: this.clientId,
-          data: event.candidate
+          clientId: this.isHost ? peerId : this.clientId,
+          candidate: {
+            candidate: event.candidate.candidate,
+            sdpMid: event.candidate.sdpMid,
+            sdpMLineIndex: event.candidate.sdpMLineIndex,
+            usernameFragment: event.candidate.usernameFragment
+          }
         })
       }
     }
 
-    this.peerConnection.onconnectionstatechange = () => {
-      const state = this.peerConnection?.connectionState
-      console.log('Connection state changed:', state)
-      this.onConnectionStateChange?.(state || 'unknown')
+    peerConnection.onconnectionstatechange = () => {
+      const state = peerConnection.connectionState
+      console.log(`Connection state changed for ${peerId}:`, state)
+      this.handlePeerConnectionState(peerId, peerConnection, state)
     }
 
-    this.peerConnection.ontrack = (event) => {
-      console.log('Received remote stream')
-      this.onStreamReceived?.(event.streams[0])
+    // Each shared display arrives as its own stream, and system audio in
+    // one more
+    peerConnection.ontrack = (event) => {
+      const stream = event.streams[0]
+      if (!stream) return
+
+      if (event.track.kind === 'audio') {
+        this.handleRemoteAudio(stream)
+        return
+      }
+      if (this.remoteStreams.has(stream.id)) return
+
+      console.log('Received remote stream', stream.id)
+      this.remoteStreams.set(stream.id, stream)
+      stream.onremovetrack = () => {
+        if (stream.getTracks().length === 0) {
+          this.remoteStreams.delete(stream.id)
+          this.emitDisplays()
+        }
+      }
+      this.onStreamReceived?.(stream)
+      this.emitDisplays()
     }
+
+    peerConnection.ondatachannel = (event) => {
+      this.registerDataChannel(peerId, event.channel)
+    }
+
+    return peerConnection
   }
 
-  public async startHost(sessionId: string, stream: MediaStream): Promise<void> {
-    this.sessionId = sessionId
+  // 'disconnected' often heals by itself, so give it a moment before
+  // restarting ICE; 'failed' never does
+  private handlePeerConnectionState(peerId: string, peerConnection: RTCPeerConnection, state: RTCPeerConnectionState) {
+    if (this.peerConnections.get(peerId) !== peerConnection) return
+
+    // Leave a running restart alone while it negotiates
+    if (state === 'new' || state === 'connecting') {
+      this.reportPeerState(peerId, state)
+      return
+    }
+
+    this.clearIceRecoveryTimer(peerId)
+
+    if (state === 'connected') {
+      this.iceRestartAttempts.delete(peerId)
+    } else if (state === 'disconnected') {
+      this.iceRecoveryTimers.set(peerId, setTimeout(() => {
+        this.iceRecoveryTimers.delete(peerId)
+        if (peerConnection.connectionState === 'disconnected') {
+          this.recoverPeer(peerId)
+        }
+      }, this.iceRestartOptions.disconnectedTimeoutMs))
+      this.reportPeerState(peerId, 'reconnecting')
+      return
+    } else if (state === 'failed') {
+      this.recoverPeer(peerId)
+      return
+    }
+
+    this.reportPeerState(peerId, state || 'unknown')
+  }
+
+  private reportPeerState(peerId: string, state: string) {
+    this.onPeerStateChange?.(peerId, state)
+    if (!this.isHost) {
+      this.onConnectionStateChange?.(state)
+    }
+  }
+
+  private clearIceRecoveryTimer(peerId: string) {
+    const timer = this.iceRecoveryTimers.get(peerId)
+    if (timer) {
+      clearTimeout(timer)
+      this.iceRecoveryTimers.delete(peerId)
+    }
+  }
+
+  // The host is always the offerer, so it restarts ICE itself while a
+  // client asks the host to do so through signaling
+  private recoverPeer(peerId: string) {
+    const attempts = (this.iceRestartAttempts.get(peerId) || 0) + 1
+    if (attempts > this.iceRestartOptions.maxAttempts) {
+      this.giveUpOnPeer(peerId)
+      return
+    }
+
+    this.iceRestartAttempts.set(peerId, attempts)
+    this.reportPeerState(peerId, 'reconnecting')
+    console.log(`Restarting ICE for ${peerId} (attempt ${attempts} of ${this.iceRestartOptions.maxAttempts})`)
+
+    if (this.isHost) {
+      this.restartIce(peerId)
+    } else {
+      this.sendSignalingMessage({
+        type: 'ice_restart_request',
+        sessionId: this.sessionId,
+        clientId: this.clientId
+      })
+    }
+
+    // Count an attempt that never reaches 'connected' as a failure
+    this.iceRecoveryTimers.set(peerId, setTimeout(() => {
+      this.iceRecoveryTimers.delete(peerId)
+      const peerConnection = this.peerConnections.get(peerId)
+      if (peerConnection && peerConnection.connectionState !== 'connected') {
+        this.recoverPeer(peerId)
+      }
+    }, this.iceRestartOptions.disconnectedTimeoutMs * 3))
+  }
+
+  private async restartIce(peerId: string) {
+    const peerConnection = this.peerConnections.get(peerId)
+    // An offer already in flight will carry fresh candidates anyway
+    if (!peerConnection || peerConnection.signalingState !== 'stable') return
+
+    try {
+      const offer = await peerConnection.createOffer({ iceRestart: true })
+      await peerConnection.setLocalDescription(offer)
+      this.sendSignalingMessage({
+        type: 'offer',
+        sessionId: this.sessionId,
+        clientId: peerId,
+        sdp: offer
+      })
+    } catch (error) {
+      console.error(`Error restarting ICE for ${peerId}:`, error)
+    }
+  }
+
+  private giveUpOnPeer(peerId: string) {
+    const attempts = this.iceRestartOptions.maxAttempts
+    console.error(`Connection to ${peerId} could not be recovered after ${attempts} ICE restarts`)
+    this.iceRestartAttempts.delete(peerId)
+
+    if (this.isHost) {
+      this.closePeerConnection(peerId)
+      this.onError?.(`Lost the connection to a viewer after ${attempts} attempts to recover it`)
+    } else {
+      this.reportPeerState(peerId, 'failed')
+      this.onError?.(`Lost the connection to the host after ${attempts} attempts to recover it`)
+    }
+  }
+
+  private registerDataChannel(peerId: string, channel: RTCDataChannel) {
+    let channels = this.dataChannels.get(peerId)
+    if (!channels) {
+      channels = new Map()
+      this.dataChannels.set(peerId, channels)
+    }
+    channels.set(channel.label, channel)
+
+    channel.onmessage = (event) => {
+      try {
+        this.dataHandlers.get(channel.label)?.(peerId, JSON.parse(event.data))
+      } catch (error) {
+        console.error(`Error handling ${channel.label} message:`, error)
+      }
+    }
+
+    const opened = () => {
+      // Tell each viewer what it is looking at as soon as it can hear it
+      if (this.isHost && channel.label === DISPLAYS_CHANNEL) {
+        this.sendData(DISPLAYS_CHANNEL, this.announceDisplays(), peerId)
+      }
+      if (channel.label === CONTROL_CHANNEL && this.recording) {
+        this.sendData(CONTROL_CHANNEL, { type: 'recording', active: true }, peerId)
+      }
+      if (channel.label === CONTROL_CHANNEL && this.isHost && this.remoteControl) {
+        this.sendData(CONTROL_CHANNEL, { type: 'remote_control', enabled: true }, peerId)
+      }
+      this.dataOpenHandlers.get(channel.label)?.(peerId)
+    }
+    channel.onopen = opened
+    if (channel.readyState === 'open') {
+      opened()
+    }
+
+    channel.onclose = () => {
+      if (this.dataChannels.get(peerId)?.get(channel.label) === channel) {
+        this.dataChannels.get(peerId)?.delete(channel.label)
+      }
+    }
+  }
+
+  private closePeerConnection(peerId: string) {
+    const peerConnection = this.peerConnections.get(peerId)
+    if (!peerConnection) return
+
+    peerConnection.close()
+    this.peerConnections.delete(peerId)
+    this.dataChannels.delete(peerId)
+    this.clearIceRecoveryTimer(peerId)
+    this.iceRestartAttempts.delete(peerId)
+    this.autoBitrates.delete(peerId)
+    this.peerStats.delete(peerId)
+    this.viewerNames.delete(peerId)
+    if (this.remoteRecorders.delete(peerId)) {
+      this.emitRecorders()
+    }
+    if (!this.isHost && this.remoteControl) {
+      this.remoteControl = false
+      this.onRemoteControlChange?.(false)
+    }
+    this.peerClosedListeners.slice().forEach((listener) => listener(peerId))
+    this.onPeerStateChange?.(peerId, 'closed')
+  }
+
+  // Resolves with the session code the server allocated
+  public async startHost(streams: SharedStream[], options: HostSessionOptions = {}): Promise<string> {
     this.isHost = true
-    this.clientId = 'host'
+    this.clientId = HOST_PEER_ID
+    this.publishedVideos = streams.map((shared) => this.toPublishedVideo(shared, shared.stream))
+    this.startStatsPolling()
 
     await this.connectWebSocket()
-    await this.createSession()
-    await this.addStreamToPeerConnection(stream)
+    await this.createSession(options.password)
+    return this.sessionId
   }
 
-  public async startClient(sessionId: string): Promise<void> {
+  public async startClient(sessionId: string, options: ClientSessionOptions = {}): Promise<void> {
     this.sessionId = sessionId
     this.isHost = false
+    this.displayName = options.displayName || ''
     this.clientId = `client_${Math.random().toString(36).substr(2, 9)}`
 
+    this.createPeerConnection(HOST_PEER_ID)
+    this.setOnDataMessage(DISPLAYS_CHANNEL, (_peerId, payload) => {
+      this.displayAnnouncements = Array.isArray(payload) ? payload as DisplayAnnouncement[] : []
+      this.emitDisplays()
+    })
+    this.startStatsPolling()
+
     await this.connectWebSocket()
-    await this.joinSession()
+    await this.joinSession(options.password, options.displayName, options.inviteToken)
+  }
+
+  private toPublishedVideo(shared: SharedStream, carrier: MediaStream): PublishedVideo {
+    const track = shared.stream.getVideoTracks()[0]
+    if (!track) {
+      throw new Error(`${shared.label} has no video`)
+    }
+    return { carrier, track, label: shared.label, display: shared.display }
+  }
+
+  private announceDisplays(): DisplayAnnouncement[] {
+    return this.publishedVideos.map((video) => ({
+      streamId: video.carrier.id,
+      label: video.label,
+      display: video.display
+    }))
+  }
+
+  // Streams the host has described come first, in its order. Until the
+  // description arrives every stream is shown as it is.
+  private emitDisplays() {
+    const displays: RemoteDisplay[] = []
+    this.displayAnnouncements.forEach((announcement) => {
+      const stream = this.remoteStreams.get(announcement.streamId)
+      if (stream) displays.push({ ...announcement, stream })
+    })
+    if (this.displayAnnouncements.length === 0) {
+      this.remoteStreams.forEach((stream, streamId) => {
+        displays.push({ streamId, stream, label: `Display ${displays.length + 1}`, display: null })
+      })
+    }
+    this.onDisplaysChange?.(displays)
+  }
+
+  private handleRemoteAudio(stream: MediaStream) {
+    if (this.remoteAudio === stream) return
+
+    console.log('Received remote audio', stream.id)
+    this.remoteAudio = stream
+    stream.onremovetrack = () => {
+      if (stream.getTracks().length === 0 && this.remoteAudio === stream) {
+        this.remoteAudio = null
+        this.onAudioChange?.(null)
+      }
+    }
+    this.onAudioChange?.(stream)
+  }
+
+  // Change what is shared. Videos that keep their position swap tracks in
+  // place, which viewers see without renegotiation; adding or removing a
+  // video renegotiates with every viewer.
+  public async setSharedStreams(streams: SharedStream[]): Promise<void> {
+    if (streams.length === 0) {
+      throw new Error('Select at least one screen or window to share')
+    }
+
+    const previous = this.publishedVideos
+    const next = streams.map((shared, index) =>
+      this.toPublishedVideo(shared, previous[index] ? previous[index].carrier : shared.stream))
+    const renegotiate = next.length !== previous.length
+
+    const replacements: Promise<void>[] = []
+    this.peerConnections.forEach((peerConnection) => {
+      const senders = peerConnection.getSenders()
+      const senderFor = (track: MediaStreamTrack) => senders.find((sender) => sender.track === track)
+
+      next.forEach((video, index) => {
+        const sender = previous[index] && senderFor(previous[index].track)
+        if (sender) {
+          replacements.push(sender.replaceTrack(video.track))
+        } else {
+          peerConnection.addTrack(video.track, video.carrier)
+        }
+      })
+      previous.slice(next.length).forEach((video) => {
+        const sender = senderFor(video.track)
+        if (sender) peerConnection.removeTrack(sender)
+      })
+    })
+
+    this.publishedVideos = next
+    await Promise.all(replacements)
+
+    if (renegotiate) {
+      await this.renegotiateAll()
+    } else {
+      // New captures can differ in size, so the scaling is worked out again
+      await this.applyQualityToAll()
+    }
+    this.sendData(DISPLAYS_CHANNEL, this.announceDisplays())
+  }
+
+  // Share system audio with every viewer, or stop with null. A new capture
+  // replaces the old track in place; starting or stopping audio
+  // renegotiates.
+  public async setSharedAudio(stream: MediaStream | null): Promise<void> {
+    const track = stream ? stream.getAudioTracks()[0] : null
+    if (stream && !track) {
+      throw new Error('The captured system audio has no audio track')
+    }
+
+    const previous = this.publishedAudio
+    const next = track ? { carrier: previous ? previous.carrier : stream!, track } : null
+
+    const replacements: Promise<void>[] = []
+    this.peerConnections.forEach((peerConnection) => {
+      const sender = previous && peerConnection.getSenders().find((candidate) => candidate.track === previous.track)
+      if (next && sender) {
+        replacements.push(sender.replaceTrack(next.track))
+      } else if (next) {
+        peerConnection.addTrack(next.track, next.carrier)
+      } else if (sender) {
+        peerConnection.removeTrack(sender)
+      }
+    })
+
+    this.publishedAudio = next
+    await Promise.all(replacements)
+
+    if (!!previous !== !!next) {
+      await this.renegotiateAll()
+    }
+  }
+
+  // Host side: switch every viewer to a preset, or let each one adapt to
+  // its own connection
+  public async setQuality(mode: QualityMode): Promise<void> {
+    this.qualityMode = mode
+    this.autoBitrates.clear()
+    await this.applyQualityToAll()
+  }
+
+  private qualityProfileFor(peerId: string): QualityProfile {
+    if (this.qualityMode !== 'auto') {
+      return QUALITY_PRESETS[this.qualityMode]
+    }
+    if (!this.autoBitrates.has(peerId)) {
+      this.autoBitrates.set(peerId, QUALITY_PRESETS.balanced.maxBitrate)
+    }
+    return autoProfile(this.autoBitrates.get(peerId)!)
+  }
+
+  // Encodings only exist once the offer is applied, so this runs after
+  // every negotiation as well as when the quality changes
+  private async applyQuality(peerId: string) {
+    const peerConnection = this.peerConnections.get(peerId)
+    if (!peerConnection) return
+
+    const profile = this.qualityProfileFor(peerId)
+    await Promise.all(peerConnection.getSenders().map(async (sender) => {
+      const track = sender.track
+      if (!track || track.kind !== 'video') return
+
+      track.contentHint = profile.contentHint
+      const parameters = sender.getParameters()
+      if (!parameters.encodings || parameters.encodings.length === 0) return
+
+      const encoding = parameters.encodings[0]
+      encoding.maxBitrate = profile.maxBitrate
+      encoding.maxFramerate = profile.frameRate
+      encoding.scaleResolutionDownBy = resolutionScale(track, profile)
+      try {
+        await sender.setParameters(parameters)
+      } catch (error) {
+        console.error(`Error applying quality for ${peerId}:`, error)
+      }
+    }))
+  }
+
+  private async applyQualityToAll() {
+    await Promise.all(Array.from(this.peerConnections.keys()).map((peerId) => this.applyQuality(peerId)))
+  }
+
+  // Automatic mode: step the viewer's bitrate with the loss and round trip
+  // it reports back
+  private async adaptQuality(peerId: string, stats: ConnectionStats) {
+    const current = this.autoBitrates.get(peerId) || QUALITY_PRESETS.balanced.maxBitrate
+    const next = nextAutoBitrate(current, stats)
+    if (next !== current) {
+      this.autoBitrates.set(peerId, next)
+      await this.applyQuality(peerId)
+    }
+  }
+
+  private startStatsPolling() {
+    if (this.statsTimer) return
+    this.statsTimer = setInterval(() => {
+      this.pollStats()
+    }, STATS_INTERVAL_MS)
+  }
+
+  private async pollStats() {
+    await Promise.all(Array.from(this.peerConnections.entries()).map(async ([peerId, peerConnection]) => {
+      try {
+        const stats = summarizeStats(await peerConnection.getStats(), this.peerStats.get(peerId))
+        // The connection may have closed while the report was gathered
+        if (this.peerConnections.get(peerId) !== peerConnection) return
+
+        this.peerStats.set(peerId, stats)
+        this.onStatsUpdate?.(peerId, stats)
+        if (this.isHost && this.qualityMode === 'auto') {
+          await this.adaptQuality(peerId, stats)
+        }
+      } catch (error) {
+        console.error(`Error reading statistics for ${peerId}:`, error)
+      }
+    }))
+  }
+
+  private async renegotiateAll() {
+    await Promise.all(Array.from(this.peerConnections.keys()).map((clientId) =>
+      this.createOffer(clientId).catch((error) => {
+        console.error(`Error renegotiating with ${clientId}:`, error)
+      })
+    ))
+  }
+
+  // After the first invite, viewers can only join with an invite token
+  public async createInvite(options: InviteOptions = {}): Promise<SessionInvite> {
+    const reply = await this.request(
+      {
+        type: 'create_invite',
+        sessionId: this.sessionId,
+        singleUse: !!options.singleUse,
+        ttlSeconds: options.ttlSeconds
+      },
+      (message) => message.type === 'invite_created' && message.sessionId === this.sessionId
+    )
+    if (reply.type !== 'invite_created') {
+      throw new Error('Unexpected reply to create_invite')
+    }
+
+    return {
+      token: reply.inviteToken,
+      singleUse: reply.singleUse,
+      expiresAt: reply.expiresAt !== undefined ? new Date(reply.expiresAt) : null
+    }
   }
 
   private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.ws = new WebSocket('ws://localhost:8080')
+    await new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(this.signalingUrl)
+      this.ws = ws
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('WebSocket connected')
         resolve()
       }
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('WebSocket error:', error)
         reject(error)
       }
 
-      this.ws.onmessage = (event) => {
-        this.handleSignalingMessage(JSON.parse(event.data))
+      ws.onmessage = (event) => {
+        const message = this.parseMessage(event)
+        if (message) {
+          this.handleSignalingMessage(message)
+        }
       }
 
-      this.ws.onclose = () => {
+      ws.onclose = () => {
         console.log('WebSocket disconnected')
+        this.handleSocketClosed(ws)
       }
     })
+
+    await this.request(
+      { type: 'hello', protocolVersion: PROTOCOL_VERSION },
+      (message) => message.type === 'welcome',
+      HANDSHAKE_TIMEOUT_MS
+    ).catch((error) => {
+      this.ws?.close()
+      this.ws = null
+      throw error
+    })
   }
 
-  private async createSession(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.ws) {
-        reject(new Error('WebSocket not connected'))
-        return
-      }
+  // Once we hold a resume token the session is worth fighting for: retry
+  // with exponential backoff instead of letting it die with the socket
+  private handleSocketClosed(ws: WebSocket) {
+    if (ws !== this.ws) return
+    this.ws = null
 
-      this.sendSignalingMessage({
-        type: 'create_session',
-        sessionId: this.sessionId
-      })
+    if (!this.resumeToken || this.disconnecting) return
+    this.scheduleReconnect()
+  }
 
-      const handleMessage = (event: MessageEvent) => {
-        const message = JSON.parse(event.data)
-        if (message.type === 'session_created' && message.sessionId === this.sessionId) {
-          this.ws?.removeEventListener('message', handleMessage)
-          resolve()
-        } else if (message.type === 'session_error') {
-          this.ws?.removeEventListener('message', handleMessage)
-          reject(new Error(message.error))
-        }
+  private scheduleReconnect() {
+    if (this.reconnectTimer || this.disconnecting) return
+
+    const { baseDelayMs, maxDelayMs, maxAttempts } = this.reconnectOptions
+    if (this.reconnectAttempt >= maxAttempts) {
+      console.error(`Giving up on signaling after ${maxAttempts} reconnect attempts`)
+      this.resumeToken = null
+      this.onSignalingStateChange?.('disconnected')
+      return
+    }
+
+    const backoff = Math.min(baseDelayMs * Math.pow(2, this.reconnectAttempt), maxDelayMs)
+    const delay = backoff / 2 + Math.random() * backoff / 2
+    this.reconnectAttempt++
+    this.onSignalingStateChange?.('reconnecting')
+
+    console.log(`Reconnecting to signaling server in ${Math.round(delay)}ms (attempt ${this.reconnectAttempt})`)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.reconnect()
+    }, delay)
+  }
+
+  private async reconnect() {
+    try {
+      await this.connectWebSocket()
+      await this.request(
+        {
+          type: 'resume_session',
+          sessionId: this.sessionId,
+          resumeToken: this.resumeToken,
+          clientId: this.isHost ? undefined : this.clientId
+        },
+        (message) => message.type === 'session_resumed' && message.sessionId === this.sessionId,
+        HANDSHAKE_TIMEOUT_MS
+      )
+
+      console.log('Signaling session resumed')
+      this.reconnectAttempt = 0
+      this.onSignalingStateChange?.('connected')
+    } catch (error) {
+      if (this.disconnecting) return
+
+      if (error instanceof SignalingError && error.code === 'resume_failed') {
+        console.error('Session could not be resumed:', error.message)
+        this.resumeToken = null
+        this.ws?.close()
+        this.onSignalingStateChange?.('disconnected')
+        return
       }
 
-      this.ws.addEventListener('message', handleMessage)
-    })
+      console.error('Reconnect attempt failed:', error)
+      this.scheduleReconnect()
+    }
+  }
+
+  private parseMessage(event: MessageEvent): ServerMessage | null {
+    try {
+      return parseServerMessage(event.data)
+    } catch (error) {
+      console.error('Dropped malformed signaling message:', error)
+      return null
+    }
   }
 
-  private async joinSession(): Promise<void> {
+  // Send a message and wait for the matching reply, failing on session_error
+  // or, when timeoutMs is given, on silence
+  private request(
+    message: ClientMessage,
+    isReply: (reply: ServerMessage) => boolean,
+    timeoutMs?: number
+  ): Promise<ServerMessage> {
     return new Promise((resolve, reject) => {
-      if (!this.ws) {
+      const ws = this.ws
+      if (!ws) {
         reject(new Error('WebSocket not connected'))
         return
       }
 
-      this.sendSignalingMessage({
-        type: 'join_session',
-        sessionId: this.sessionId,
-        clientId: this.clientId
-      })
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const finish = () => {
+        ws.removeEventListener('message', handleMessage)
+        if (timer) clearTimeout(timer)
+      }
 
       const handleMessage = (event: MessageEvent) => {
-        const message = JSON.parse(event.data)
-        if (message.type === 'session_joined' && message.sessionId === this.sessionId) {
-          this.ws?.removeEventListener('message', handleMessage)
-          resolve()
-        } else if (message.type === 'session_error') {
-          this.ws?.removeEventListener('message', handleMessage)
-          reject(new Error(message.error))
+        const reply = this.parseMessage(event)
+        if (!reply) return
+
+        if (isReply(reply)) {
+          finish()
+          resolve(reply)
+        } else if (reply.type === 'session_error') {
+          finish()
+          reject(new SignalingError(reply.code, reply.error))
         }
       }
 
-      this.ws.addEventListener('message', handleMessage)
+      if (timeoutMs) {
+        timer = setTimeout(() => {
+          finish()
+          reject(new SignalingError(
+            'protocol_mismatch',
+            `No reply to ${message.type} from the signaling server; it may be running an incompatible version`
+          ))
+        }, timeoutMs)
+      }
+
+      ws.addEventListener('message', handleMessage)
+      this.sendSignalingMessage(message)
     })
   }
 
-  private async addStreamToPeerConnection(stream: MediaStream): Promise<void> {
-    if (!this.peerConnection) {
-      throw new Error('Peer connection not initialized')
+  private async createSession(password?: string): Promise<void> {
+    const reply = await this.request(
+      { type: 'create_session', password: password || undefined },
+      (message) => message.type === 'session_created'
+    )
+    if (reply.type === 'session_created') {
+      this.sessionId = reply.sessionId
+      this.resumeToken = reply.resumeToken
+    }
+  }
+
+  // Resolves once the host has accepted us, which may take a while
+  private async joinSession(password?: string, displayName?: string, inviteToken?: string): Promise<void> {
+    const reply = await this.request(
+      {
+        type: 'join_session',
+        sessionId: this.sessionId,
+        clientId: this.clientId,
+        password: password || undefined,
+        displayName: displayName || undefined,
+        inviteToken: inviteToken || undefined
+      },
+      (message) => message.type === 'session_joined' && message.sessionId === this.sessionId
+    )
+    if (reply.type === 'session_joined') {
+      this.resumeToken = reply.resumeToken
     }
+  }
 
-    stream.getTracks().forEach(track => {
-      this.peerConnection?.addTrack(track, stream)
+  private async handleClientJoined(clientId: string) {
+    if (!this.isHost || this.publishedVideos.length === 0) return
+
+    // A client rejoining under the same id gets a fresh connection
+    this.closePeerConnection(clientId)
+
+    const peerConnection = this.createPeerConnection(clientId)
+    this.publishedVideos.forEach((video) => {
+      peerConnection.addTrack(video.track, video.carrier)
+    })
+    if (this.publishedAudio) {
+      peerConnection.addTrack(this.publishedAudio.track, this.publishedAudio.carrier)
+    }
+    DATA_CHANNEL_LABELS.forEach((label) => {
+      this.registerDataChannel(clientId, peerConnection.createDataChannel(label))
     })
+
+    try {
+      await this.createOffer(clientId)
+    } catch (error) {
+      console.error(`Error creating offer for ${clientId}:`, error)
+      this.closePeerConnection(clientId)
+    }
   }
 
-  private handleSignalingMessage(message: SignalingMessage) {
+  private handleSignalingMessage(message: ServerMessage) {
     console.log('Received signaling message:', message.type)
 
     switch (message.type) {
+      case 'join_request':
+        console.log('Join request from:', message.clientId)
+        this.onJoinRequest?.({ clientId: message.clientId, displayName: message.displayName })
+        break
+
+      case 'join_cancelled':
+        console.log('Join request withdrawn:', message.clientId)
+        this.onJoinRequestCancelled?.(message.clientId)
+        break
+
+      case 'join_pending':
+        this.onJoinPending?.()
+        break
+
       case 'client_joined':
         console.log('Client joined:', message.clientId)
+        this.handleClientJoined(message.clientId)
+        if (message.displayName) {
+          this.viewerNames.set(message.clientId, message.displayName)
+        }
         break
 
       case 'client_left':
         console.log('Client left:', message.clientId)
+        this.closePeerConnection(message.clientId)
         break
 
       case 'offer':
-        this.handleOffer(message.data)
+        this.handleOffer(message.sdp)
         break
 
       case 'answer':
-        this.handleAnswer(message.data)
+        this.handleAnswer(message.clientId, message.sdp)
         break
 
       case 'ice_candidate':
-        this.handleIceCandidate(message.data)
+        this.handleIceCandidate(this.isHost ? message.clientId : HOST_PEER_ID, message.candidate)
+        break
+
+      case 'chat_message':
+        this.receiveChat(this.isHost ? message.clientId : HOST_PEER_ID, {
+          id: message.messageId,
+          senderName: message.senderName,
+          text: message.text,
+          sentAt: message.sentAt
+        })
+        break
+
+      case 'server_shutdown':
+        // The server's sessions die with it, so there is nothing to resume
+        console.log('Signaling server shutting down:', message.reason)
+        this.resumeToken = null
+        this.onSignalingStateChange?.('disconnected')
+        this.onError?.(message.reason)
+        break
+
+      case 'ice_restart_request':
+        console.log('ICE restart requested by:', message.clientId)
+        this.restartIce(message.clientId)
         break
 
       case 'host_disconnected':
         console.log('Host disconnected')
+        this.resumeToken = null
         this.onConnectionStateChange?.('disconnected')
         break
 
+      case 'host_reconnecting':
+        console.log('Host lost its signaling connection')
+        this.onHostStatusChange?.('reconnecting')
+        break
+
+      case 'host_resumed':
+        console.log('Host is back')
+        this.onHostStatusChange?.('connected')
+        break
+
       case 'client_disconnected':
         console.log('Client disconnected:', message.clientId)
+        this.closePeerConnection(message.clientId)
         break
 
-      default:
-        console.warn('Unknown signaling message type:', message.type)
+      case 'session_error':
+        console.error(`Signaling error (${message.code}):`, message.error)
+        if (message.code === 'session_closed' && this.isHost) {
+          this.resumeToken = null
+          this.onError?.(message.error)
+        }
+        break
     }
   }
 
   private async handleOffer(offer: RTCSessionDescriptionInit) {
-    if (!this.peerConnection) return
+    const peerConnection = this.peerConnections.get(HOST_PEER_ID)
+    if (!peerConnection) return
 
     try {
-      await this.peerConnection.setRemoteDescription(new RTCSessionDescription(offer))
-      const answer = await this.peerConnection.createAnswer()
-      await this.peerConnection.setLocalDescription(answer)
+      await peerConnection.setRemoteDescription(new RTCSessionDescription(offer))
+      const answer = await peerConnection.createAnswer()
+      await peerConnection.setLocalDescription(answer)
 
       this.sendSignalingMessage({
         type: 'answer',
         sessionId: this.sessionId,
         clientId: this.clientId,
-        data: answer
+        sdp: answer
       })
     } catch (error) {
       console.error('Error handling offer:', error)
     }
   }
 
-  private async handleAnswer(answer: RTCSessionDescriptionInit) {
-    if (!this.peerConnection) return
+  private async handleAnswer(clientId: string, answer: RTCSessionDescriptionInit) {
+    const peerConnection = this.peerConnections.get(clientId)
+    if (!peerConnection) return
 
     try {
-      await this.peerConnection.setRemoteDescription(new RTCSessionDescription(answer))
+      await peerConnection.setRemoteDescription(new RTCSessionDescription(answer))
     } catch (error) {
       console.error('Error handling answer:', error)
     }
   }
 
-  private async handleIceCandidate(candidate: RTCIceCandidateInit) {
-    if (!this.peerConnection) return
+  private async handleIceCandidate(peerId: string, candidate: RTCIceCandidateInit) {
+    const peerConnection = this.peerConnections.get(peerId)
+    if (!peerConnection) return
 
     try {
-      await this.peerConnection.addIceCandidate(new RTCIceCandidate(candidate))
+      await peerConnection.addIceCandidate(new RTCIceCandidate(candidate))
     } catch (error) {
       console.error('Error handling ICE candidate:', error)
     }
   }
 
-  private sendSignalingMessage(message: SignalingMessage) {
+  private sendSignalingMessage(message: ClientMessage) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message))
     } else {
@@ -248,42 +1116,354 @@ export class WebRTCManager {
     this.onStreamReceived = callback
   }
 
+  // Viewer side: every shared display currently received from the host
+  public setOnDisplaysChange(callback: (displays: RemoteDisplay[]) => void) {
+    this.onDisplaysChange = callback
+  }
+
+  // Viewer side: the host's system audio, or null when it stops sharing it
+  public setOnAudioChange(callback: (stream: MediaStream | null) => void) {
+    this.onAudioChange = callback
+  }
+
+  // Called with a fresh sample for each peer every few seconds. A client's
+  // only peer is the host.
+  public setOnStatsUpdate(callback: (peerId: string, stats: ConnectionStats) => void) {
+    this.onStatsUpdate = callback
+  }
+
+  // Host side: the name a viewer gave when joining, if any
+  public getViewerName(clientId: string): string | undefined {
+    return this.viewerNames.get(clientId)
+  }
+
   public setOnConnectionStateChange(callback: (state: string) => void) {
     this.onConnectionStateChange = callback
   }
 
-  public async createOffer(): Promise<RTCSessionDescriptionInit> {
-    if (!this.peerConnection) {
-      throw new Error('Peer connection not initialized')
+  // Send on a data channel. The host broadcasts to every viewer unless a
+  // peerId is given; a client always sends to the host.
+  public sendData(label: string, payload: unknown, peerId?: string): boolean {
+    const targets = peerId ? [peerId] : this.isHost ? Array.from(this.dataChannels.keys()) : [HOST_PEER_ID]
+    const data = JSON.stringify(payload)
+    let sent = false
+
+    targets.forEach((target) => {
+      const channel = this.dataChannels.get(target)?.get(label)
+      if (!channel || channel.readyState !== 'open') return
+      // send() throws when the message is too large or the channel closes
+      // underneath it
+      try {
+        channel.send(data)
+        sent = true
+      } catch (error) {
+        console.error(`Error sending ${label} message to ${target}:`, error)
+      }
+    })
+
+    return sent
+  }
+
+  public setOnDataMessage(label: string, callback: (peerId: string, payload: unknown) => void) {
+    this.dataHandlers.set(label, callback)
+  }
+
+  // Called whenever a channel with this label opens, including after a
+  // viewer reconnects
+  public setOnDataChannelOpen(label: string, callback: (peerId: string) => void) {
+    this.dataOpenHandlers.set(label, callback)
+  }
+
+  // Called when the connection to a peer is torn down. The peer may connect
+  // again under the same id, and its channels then open anew. Returns a
+  // function that removes the listener.
+  public addPeerClosedListener(listener: (peerId: string) => void): () => void {
+    this.peerClosedListeners.push(listener)
+    return () => {
+      this.peerClosedListeners = this.peerClosedListeners.filter((current) => current !== listener)
     }
+  }
 
-    const offer = await this.peerConnection.createOffer()
-    await this.peerConnection.setLocalDescription(offer)
+  // Peers a message on this channel can reach right now
+  public getOpenDataPeers(label: string): string[] {
+    const peers: string[] = []
+    this.dataChannels.forEach((channels, peerId) => {
+      if (channels.get(label)?.readyState === 'open') peers.push(peerId)
+    })
+    return peers
+  }
+
+  // Resolves once no more than maxBuffered bytes are waiting to go out on
+  // the channel, or with false if it is not open or closes first
+  public waitForDataBuffer(label: string, peerId: string, maxBuffered: number): Promise<boolean> {
+    const channel = this.dataChannels.get(peerId)?.get(label)
+    if (!channel || channel.readyState !== 'open') return Promise.resolve(false)
+    if (channel.bufferedAmount <= maxBuffered) return Promise.resolve(true)
+
+    return new Promise((resolve) => {
+      const finish = (drained: boolean) => {
+        channel.removeEventListener('bufferedamountlow', onLow)
+        channel.removeEventListener('close', onClose)
+        resolve(drained)
+      }
+      const onLow = () => finish(true)
+      const onClose = () => finish(false)
+
+      channel.bufferedAmountLowThreshold = maxBuffered
+      channel.addEventListener('bufferedamountlow', onLow)
+      channel.addEventListener('close', onClose)
+    })
+  }
+
+  // Dropped unless the host has allowed control
+  public sendInputEvent(event: RemoteInputEvent): boolean {
+    if (this.isHost || !this.remoteControl) return false
+    return this.sendData(INPUT_CHANNEL, event)
+  }
+
+  // The host sends to every viewer, a viewer to the host. Returns the
+  // message as sent, for the sender's own transcript.
+  public sendChat(text: string): ChatMessage {
+    if (!text || text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`Chat messages must be between 1 and ${MAX_CHAT_MESSAGE_LENGTH} characters`)
+    }
+
+    const message: ChatPayload = {
+      id: `${this.clientId}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`,
+      senderName: this.isHost ? HOST_CHAT_NAME : this.displayName || 'Viewer',
+      text,
+      sentAt: Date.now()
+    }
+    this.seenChatIds.add(message.id)
+    this.deliverChat(message)
+    return { ...message, fromSelf: true }
+  }
+
+  public setOnChat(callback: (message: ChatMessage) => void) {
+    this.onChat = callback
+  }
+
+  // Over the chat channel where it is open, otherwise relayed through the
+  // signaling server
+  private deliverChat(message: ChatPayload, exceptPeerId?: string) {
+    const targets = this.isHost ? Array.from(this.peerConnections.keys()) : [HOST_PEER_ID]
+    targets.forEach((peerId) => {
+      if (peerId === exceptPeerId || this.sendData(CHAT_CHANNEL, message, peerId)) return
+
+      this.sendSignalingMessage({
+        type: 'chat_message',
+        sessionId: this.sessionId,
+        clientId: this.isHost ? peerId : this.clientId,
+        messageId: message.id,
+        senderName: message.senderName,
+        text: message.text,
+        sentAt: message.sentAt
+      })
+    })
+  }
+
+  private receiveChat(peerId: string, payload: unknown) {
+    if (!isChatPayload(payload) || this.seenChatIds.has(payload.id)) return
+    this.seenChatIds.add(payload.id)
+
+    // The host knows viewers by the name they joined with, and passes each
+    // viewer's messages on to the others
+    const message: ChatPayload = this.isHost
+      ? { ...payload, senderName: this.viewerNames.get(peerId) || payload.senderName }
+      : payload
+    if (this.isHost) {
+      this.deliverChat(message, peerId)
+    }
+    this.onChat?.({ ...message, fromSelf: false })
+  }
+
+  // Tells the other side, and anyone who connects later, whether this side
+  // is recording the session
+  public setRecording(active: boolean) {
+    if (this.recording === active) return
+    this.recording = active
+    this.sendData(CONTROL_CHANNEL, { type: 'recording', active })
+  }
+
+  // Called with the peers that are recording: viewers on the host, the host
+  // on a viewer
+  public setOnRecordingChange(callback: (peerIds: string[]) => void) {
+    this.onRecordingChange = callback
+  }
+
+  // Tells every viewer, and any that connect later, whether the host takes
+  // their mouse and keyboard input
+  public setRemoteControl(enabled: boolean) {
+    if (this.remoteControl === enabled) return
+    this.remoteControl = enabled
+    this.sendData(CONTROL_CHANNEL, { type: 'remote_control', enabled })
+  }
+
+  // Called on a viewer when the host allows or stops allowing control
+  public setOnRemoteControlChange(callback: (enabled: boolean) => void) {
+    this.onRemoteControlChange = callback
+  }
+
+  private receiveControl(peerId: string, payload: unknown) {
+    const message = payload as ControlMessage
+    if (!message) return
+
+    if (message.type === 'remote_control') {
+      if (this.isHost || peerId !== HOST_PEER_ID) return
+      this.remoteControl = message.enabled === true
+      this.onRemoteControlChange?.(this.remoteControl)
+      return
+    }
+    if (message.type !== 'recording') return
+
+    if (message.active) {
+      this.remoteRecorders.add(peerId)
+    } else {
+      this.remoteRecorders.delete(peerId)
+    }
+    this.emitRecorders()
+  }
+
+  private emitRecorders() {
+    this.onRecordingChange?.(Array.from(this.remoteRecorders))
+  }
+
+  // The host sends to every viewer unless a peerId is given
+  public sendClipboard(content: ClipboardContent, peerId?: string): boolean {
+    return this.sendData(CLIPBOARD_CHANNEL, content, peerId)
+  }
+
+  public setOnClipboard(callback: (peerId: string, content: ClipboardContent) => void) {
+    this.setOnDataMessage(CLIPBOARD_CHANNEL, (peerId, payload) => {
+      if (isClipboardContent(payload)) {
+        callback(peerId, payload)
+      }
+    })
+  }
+
+  // A viewer draws for the host; the host only ever sends 'clear'
+  public sendAnnotation(message: AnnotationMessage, peerId?: string): boolean {
+    return this.sendData(ANNOTATION_CHANNEL, message, peerId)
+  }
+
+  public setOnAnnotation(callback: (peerId: string, message: AnnotationMessage) => void) {
+    this.setOnDataMessage(ANNOTATION_CHANNEL, (peerId, payload) => {
+      if (isAnnotationMessage(payload)) {
+        callback(peerId, payload)
+      }
+    })
+  }
+
+  public setOnRemoteInput(callback: (clientId: string, event: RemoteInputEvent) => void) {
+    this.setOnDataMessage(INPUT_CHANNEL, (peerId, payload) => {
+      callback(peerId, payload as RemoteInputEvent)
+    })
+  }
+
+  public setOnSignalingStateChange(callback: (state: SignalingState) => void) {
+    this.onSignalingStateChange = callback
+  }
+
+  public setOnHostStatusChange(callback: (status: 'reconnecting' | 'connected') => void) {
+    this.onHostStatusChange = callback
+  }
+
+  public setOnError(callback: (message: string) => void) {
+    this.onError = callback
+  }
+
+  public setOnJoinRequest(callback: (request: JoinRequest) => void) {
+    this.onJoinRequest = callback
+  }
+
+  public setOnJoinRequestCancelled(callback: (clientId: string) => void) {
+    this.onJoinRequestCancelled = callback
+  }
+
+  public setOnJoinPending(callback: () => void) {
+    this.onJoinPending = callback
+  }
+
+  public respondToJoinRequest(clientId: string, accepted: boolean) {
+    this.sendSignalingMessage({
+      type: 'join_response',
+      sessionId: this.sessionId,
+      clientId,
+      accepted
+    })
+  }
+
+  public setOnPeerStateChange(callback: (clientId: string, state: string) => void) {
+    this.onPeerStateChange = callback
+  }
+
+  public async createOffer(clientId: string): Promise<RTCSessionDescriptionInit> {
+    const peerConnection = this.peerConnections.get(clientId)
+    if (!peerConnection) {
+      throw new Error(`No peer connection for client ${clientId}`)
+    }
+
+    const offer = await peerConnection.createOffer()
+    await peerConnection.setLocalDescription(offer)
+    await this.applyQuality(clientId)
 
     this.sendSignalingMessage({
       type: 'offer',
       sessionId: this.sessionId,
-      clientId: this.clientId,
-      data: offer
+      clientId,
+      sdp: offer
     })
 
     return offer
   }
 
   public disconnect() {
+    this.disconnecting = true
+    this.resumeToken = null
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
     if (this.ws) {
-      this.sendSignalingMessage({
-        type: 'leave_session',
-        sessionId: this.sessionId,
-        clientId: this.clientId
-      })
+      // Say goodbye explicitly so the server does not hold our place
+      if (this.isHost) {
+        this.sendSignalingMessage({
+          type: 'end_session',
+          sessionId: this.sessionId
+        })
+      } else {
+        this.sendSignalingMessage({
+          type: 'leave_session',
+          sessionId: this.sessionId,
+          clientId: this.clientId
+        })
+      }
       this.ws.close()
       this.ws = null
     }
 
-    if (this.peerConnection) {
-      this.peerConnection.close()
-      this.peerConnection = null
+    this.iceRecoveryTimers.forEach((timer) => clearTimeout(timer))
+    this.iceRecoveryTimers.clear()
+    this.iceRestartAttempts.clear()
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer)
+      this.statsTimer = null
     }
+    this.autoBitrates.clear()
+    this.peerStats.clear()
+    this.viewerNames.clear()
+    this.seenChatIds.clear()
+    this.recording = false
+    this.remoteRecorders.clear()
+    this.remoteControl = false
+    this.peerConnections.forEach((peerConnection) => peerConnection.close())
+    this.peerConnections.clear()
+    this.dataChannels.clear()
+    this.publishedVideos = []
+    this.publishedAudio = null
+    this.remoteStreams.clear()
+    this.remoteAudio = null
+    this.displayAnnouncements = []
   }
 } 
\ No newline at end of file